@@ -1,27 +1,37 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { LoadingState } from './types';
-import type { Ingredient, Recipe } from './types';
-import { identifyIngredientsFromImage, fetchRecipesFromIngredients } from './services/geminiService';
+import type { DietaryProfile, GenerationOptions, HistoryEntry, Ingredient, MealPlan, NutritionTargets, PantryItem, PlannedMeal, Recipe, RecipeRevisions, SavedRecipe, Substitute, SubstituteSuggestions, UnitSystem } from './types';
+import { identifyIngredientsFromImage, fetchRecipesFromIngredients, fetchMoreRecipes, fetchRecipeVariations, fetchMealPlanRecipes, fetchSubstitutes, refineRecipe } from './services/geminiService';
+import type { RecipeStreamOptions } from './services/geminiService';
+import { ResponseValidationError } from './services/validation';
+import { isAbortError } from './services/http';
+import { listSavedRecipes, saveRecipe, updateSavedRecipe, deleteSavedRecipe, findSavedRecipe } from './services/recipeBox';
+import { listHistory, addHistoryEntry, updateHistoryEntry, deleteHistoryEntry } from './services/history';
+import { loadPreferences, savePreferences } from './services/preferences';
+import { emptySlots, getMealPlan, getPlannedMeal, plannedRecipes, saveMealPlan, shiftWeek, slotLabel, weekStartOf, withPlannedMeal } from './services/mealPlan';
+import type { MealSlot } from './services/mealPlan';
+import { addToPantry, applyPantryUses, combineWithPantry, deletePantryItem, expiringItems, listPantry, savePantryItem, withPantryQuantity } from './services/pantry';
+import type { PantryUse } from './services/pantry';
+import { ALLERGEN_LABELS, DIET_LABELS, isEmptyProfile } from './utils/allergens';
+import { DEFAULT_GENERATION_OPTIONS, PREP_TIME_LIMITS, summarizeGenerationOptions } from './utils/generationOptions';
+import { compareCoverage, scorePantryCoverage } from './utils/pantryCoverage';
+import type { CoverageSort } from './utils/pantryCoverage';
+import { applySubstitution } from './utils/substitutions';
+import { ingredientFromText } from './utils/ingredients';
+import { formatExpiry } from './utils/shelfLife';
 import Spinner from './components/Spinner';
 import RecipeCard from './components/RecipeCard';
-import TimerOverlay from './components/TimerOverlay';
-
-const CUISINE_OPTIONS = [
-    "Open",
-    "Asian",
-    "Comfort Food",
-    "Gluten-Free",
-    "Indian",
-    "Italian",
-    "Keto",
-    "Mediterranean",
-    "Mexican",
-    "Paleo",
-    "Quick (< 30m)",
-    "Vegan",
-    "Vegetarian"
-];
+import RecipeCardSkeleton from './components/RecipeCardSkeleton';
+import GenerationOptionsPanel from './components/GenerationOptionsPanel';
+import ProfileSettings from './components/ProfileSettings';
+import RecipeBox from './components/RecipeBox';
+import HistoryView from './components/HistoryView';
+import UnitSystemToggle from './components/UnitSystemToggle';
+import ShoppingList from './components/ShoppingList';
+import MealPlanner from './components/MealPlanner';
+import CoverageControls from './components/CoverageControls';
+import PantryManager from './components/PantryManager';
 
 const App: React.FC = () => {
     const [loadingState, setLoadingState] = useState<LoadingState>(LoadingState.IDLE);
@@ -29,10 +39,49 @@ const App: React.FC = () => {
     const [images, setImages] = useState<string[]>([]);
     const [ingredients, setIngredients] = useState<Ingredient[]>([]);
     const [recipes, setRecipes] = useState<Recipe[]>([]);
+    // True while recipes are still arriving from the stream
+    const [isStreaming, setIsStreaming] = useState(false);
+    // How many recipes the running request asked for; sizes the skeleton placeholders
+    const [expectedRecipeCount, setExpectedRecipeCount] = useState(DEFAULT_GENERATION_OPTIONS.count);
+    // Why "Generate more" / "More like this" failed; shown under the results rather than replacing them
+    const [moreError, setMoreError] = useState<string | null>(null);
+    // Refinement chats on the results screen, keyed by the recipe's position in `recipes`
+    const [recipeRevisions, setRecipeRevisions] = useState<Record<number, RecipeRevisions>>({});
+    const [refiningIndex, setRefiningIndex] = useState<number | null>(null);
+    const [refineError, setRefineError] = useState<{ index: number; message: string } | null>(null);
+    // AI substitute ideas for one missing ingredient on the results screen
+    const [aiSubstitutes, setAiSubstitutes] = useState<(SubstituteSuggestions & { index: number }) | null>(null);
+    // How the results screen orders and filters recipes by fit with the scanned ingredients
+    const [coverageSort, setCoverageSort] = useState<CoverageSort>('suggested');
+    const [maxMissing, setMaxMissing] = useState<number | null>(null);
     const [error, setError] = useState<string | null>(null);
+    // Extra detail for errors that carry it (e.g. why items in an AI response were rejected)
+    const [errorDetails, setErrorDetails] = useState<string[]>([]);
     const [servings, setServings] = useState<number>(1);
-    const [cuisine, setCuisine] = useState<string>("Open");
+    const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
     const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
+    const [savedRecipes, setSavedRecipes] = useState<SavedRecipe[]>([]);
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
+    // The history entry behind the recipes on screen, so extra recipes are added to it
+    const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>(() => loadPreferences().unitSystem);
+    const [nutritionTargets, setNutritionTargets] = useState<NutritionTargets>(() => loadPreferences().nutritionTargets);
+    const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile>(() => loadPreferences().dietaryProfile);
+    // Recipes picked for the shopping list, and the list items already ticked off
+    const [listRecipes, setListRecipes] = useState<Recipe[]>([]);
+    const [checkedListItems, setCheckedListItems] = useState<string[]>([]);
+    // Which recipes the shopping list is built from, and where its Back button goes
+    const [listSource, setListSource] = useState<'results' | 'mealPlan'>('results');
+    const [mealPlan, setMealPlan] = useState<MealPlan | null>(null);
+    const [isFillingPlan, setIsFillingPlan] = useState(false);
+    const [planError, setPlanError] = useState<string | null>(null);
+    // Screen to go back to when leaving the meal plan
+    const [planReturnState, setPlanReturnState] = useState<LoadingState>(LoadingState.IDLE);
+    const [pantry, setPantry] = useState<PantryItem[]>([]);
+    // Whether generation draws on the pantry as well as the current scan
+    const [usePantry, setUsePantry] = useState(true);
+    // The reviewed scan has been put in the pantry (reset when the list changes)
+    const [isScanInPantry, setIsScanInPantry] = useState(false);
     
     // New Ingredient Input State
     const [newIngredientInput, setNewIngredientInput] = useState("");
@@ -42,6 +91,26 @@ const App: React.FC = () => {
     const streamRef = useRef<MediaStream | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const ingredientInputRef = useRef<HTMLInputElement>(null);
+    // Controller for the in-flight AI request, so Cancel / Start Over can abort it
+    const requestRef = useRef<AbortController | null>(null);
+    // Meal-plan fills run alongside results requests, so they're cancelled separately
+    const planRequestRef = useRef<AbortController | null>(null);
+
+    // What recipes are generated from and checked against: the scan, plus the pantry when it's included.
+    // History keeps only the scan.
+    const availableIngredients = useMemo(
+        () => usePantry ? combineWithPantry(ingredients, pantry, isScanInPantry) : ingredients,
+        [usePantry, ingredients, pantry, isScanInPantry]
+    );
+    const expiringSoon = useMemo(() => expiringItems(pantry), [pantry]);
+    const expiringNames = useMemo(
+        () => usePantry ? expiringSoon.map(item => item.name) : [],
+        [usePantry, expiringSoon]
+    );
+
+    useEffect(() => {
+        setIsScanInPantry(false);
+    }, [ingredients]);
 
     useEffect(() => {
         const handleBeforeInstallPrompt = (e: Event) => {
@@ -56,6 +125,21 @@ const App: React.FC = () => {
         };
     }, []);
 
+    useEffect(() => {
+        listSavedRecipes()
+            .then(setSavedRecipes)
+            .catch(err => console.error("Could not load saved recipes:", err));
+        listHistory()
+            .then(setHistory)
+            .catch(err => console.error("Could not load history:", err));
+        getMealPlan(weekStartOf())
+            .then(setMealPlan)
+            .catch(err => console.error("Could not load meal plan:", err));
+        listPantry()
+            .then(setPantry)
+            .catch(err => console.error("Could not load pantry:", err));
+    }, []);
+
     const handleInstallClick = async () => {
         if (deferredPrompt) {
             deferredPrompt.prompt();
@@ -76,11 +160,14 @@ const App: React.FC = () => {
     useEffect(() => {
         return () => {
             stopCamera();
+            requestRef.current?.abort();
+            planRequestRef.current?.abort();
         };
     }, [stopCamera]);
 
     const handleStartCamera = async () => {
         setError(null);
+        setErrorDetails([]);
         setLoadingState(LoadingState.CAPTURING);
         try {
             const stream = await navigator.mediaDevices.getUserMedia({
@@ -97,43 +184,239 @@ const App: React.FC = () => {
         }
     };
 
+    const showError = (err: unknown) => {
+        const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+        setError(errorMessage);
+        setErrorDetails(err instanceof ResponseValidationError ? err.issues : []);
+        setLoadingState(LoadingState.ERROR);
+    };
+
+    // Starts a new AI request, aborting any previous one that is still running
+    const beginRequest = () => {
+        requestRef.current?.abort();
+        const controller = new AbortController();
+        requestRef.current = controller;
+        return controller.signal;
+    };
+
+    const cancelRequest = () => {
+        requestRef.current?.abort();
+        requestRef.current = null;
+    };
+
     // Step 1: Analyze Images to get Ingredients
     const handleAnalyze = useCallback(async () => {
         if (images.length === 0) return;
 
         setLoadingState(LoadingState.ANALYZING);
+        const signal = beginRequest();
         try {
             // Extract base64 strings from data URLs
             const base64Images = images.map(img => img.split(',')[1]);
 
-            const identifiedIngredients = await identifyIngredientsFromImage(base64Images);
+            const identifiedIngredients = await identifyIngredientsFromImage(base64Images, { signal });
+            // The user cancelled while we were waiting; drop the late result
+            if (signal.aborted) return;
             if (identifiedIngredients.length === 0) {
                 setError("No ingredients could be identified. Please try clearer pictures with well-lit ingredients.");
+                setErrorDetails([]);
                 setLoadingState(LoadingState.ERROR);
                 return;
             }
             setIngredients(identifiedIngredients);
             setLoadingState(LoadingState.REVIEW_INGREDIENTS);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setError(errorMessage);
-            setLoadingState(LoadingState.ERROR);
+            if (signal.aborted || isAbortError(err)) return;
+            showError(err);
         }
     }, [images]);
 
+    // Every completed run is kept in history; failures here shouldn't disturb the results
+    const recordHistory = (generated: Recipe[]) => {
+        addHistoryEntry({ images, ingredients, servings, options: generationOptions, recipes: generated })
+            .then(entry => {
+                setHistory(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+                setCurrentHistoryId(entry.id);
+            })
+            .catch(err => console.error("Could not save history entry:", err));
+    };
+
     // Step 2: Generate Recipes from Reviewed Ingredients
+    // Recipes stream in one by one; the results screen opens with the first one.
     const handleGenerateRecipes = useCallback(async () => {
         setLoadingState(LoadingState.FETCHING_RECIPES);
+        setRecipes([]);
+        setIsStreaming(true);
+        setExpectedRecipeCount(generationOptions.count);
+        setMoreError(null);
+        setCurrentHistoryId(null);
+        clearRecipeEdits();
+        // Recipes that use up what's about to go off come first
+        if (expiringNames.length > 0) setCoverageSort('expiring');
+        const signal = beginRequest();
+        let received = 0;
         try {
-            const suggestedRecipes = await fetchRecipesFromIngredients(ingredients, servings, cuisine);
+            const suggestedRecipes = await fetchRecipesFromIngredients(availableIngredients, servings, generationOptions, dietaryProfile, expiringNames, {
+                signal,
+                onRecipe: (recipe, index) => {
+                    if (signal.aborted) return;
+                    received = Math.max(received, index + 1);
+                    setRecipes(prev => {
+                        const next = prev.slice(0, index);
+                        next[index] = recipe;
+                        return next;
+                    });
+                    setLoadingState(LoadingState.SHOWING_RESULTS);
+                },
+            });
+            if (signal.aborted) return;
             setRecipes(suggestedRecipes);
             setLoadingState(LoadingState.SHOWING_RESULTS);
+            recordHistory(suggestedRecipes);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setError(errorMessage);
-            setLoadingState(LoadingState.ERROR);
+            if (signal.aborted || isAbortError(err)) return;
+            if (received > 0) {
+                // Keep what already arrived rather than throwing it away
+                console.error("Recipe stream failed part-way:", err);
+                return;
+            }
+            showError(err);
+        } finally {
+            if (!signal.aborted) setIsStreaming(false);
+        }
+    }, [ingredients, availableIngredients, expiringNames, servings, generationOptions, dietaryProfile, images]);
+
+    // Replaces the results list after it was added to or revised, keeping its history entry in step
+    const showRecipes = (all: Recipe[]) => {
+        setRecipes(all);
+        const entry = history.find(e => e.id === currentHistoryId);
+        if (!entry) return;
+        const updated = { ...entry, recipes: all };
+        setHistory(prev => prev.map(e => e.id === entry.id ? updated : e));
+        updateHistoryEntry(updated).catch(err => console.error("Could not update history entry:", err));
+    };
+
+    const clearRecipeEdits = () => {
+        setRecipeRevisions({});
+        setRefiningIndex(null);
+        setRefineError(null);
+        setAiSubstitutes(null);
+    };
+
+    // Streams extra recipes onto the end of the results list. Unlike a fresh search,
+    // a failure leaves the existing recipes in place and shows an inline error.
+    const appendRecipes = async (expected: number, fetchMore: (shown: Recipe[], options: RecipeStreamOptions) => Promise<Recipe[]>) => {
+        const shown = recipes;
+        setIsStreaming(true);
+        setExpectedRecipeCount(shown.length + expected);
+        setMoreError(null);
+        const signal = beginRequest();
+        let received = 0;
+        const keep = (added: Recipe[]) => showRecipes([...shown, ...added]);
+        const partial: Recipe[] = [];
+        try {
+            const added = await fetchMore(shown, {
+                signal,
+                onRecipe: (recipe, index) => {
+                    if (signal.aborted) return;
+                    received = Math.max(received, index + 1);
+                    partial.length = index;
+                    partial[index] = recipe;
+                    setRecipes([...shown, ...partial]);
+                },
+            });
+            if (signal.aborted) return;
+            keep(added);
+        } catch (err) {
+            if (signal.aborted || isAbortError(err)) return;
+            if (received > 0) {
+                // Keep what already arrived rather than throwing it away
+                console.error("Recipe stream failed part-way:", err);
+                keep(partial);
+                return;
+            }
+            setRecipes(shown);
+            setMoreError(err instanceof Error ? err.message : "An unknown error occurred.");
+        } finally {
+            if (!signal.aborted) setIsStreaming(false);
+        }
+    };
+
+    const handleGenerateMore = () =>
+        appendRecipes(generationOptions.count, (shown, options) =>
+            fetchMoreRecipes(availableIngredients, servings, generationOptions, dietaryProfile, shown, expiringNames, options));
+
+    const handleMoreLikeThis = (recipe: Recipe) =>
+        appendRecipes(generationOptions.count, (shown, options) =>
+            fetchRecipeVariations(recipe, availableIngredients, servings, generationOptions, dietaryProfile, shown, options));
+
+    // Swaps one recipe on the results screen for another version of it; a pick for the shopping list follows along
+    const replaceRecipe = (index: number, next: Recipe) => {
+        const previous = recipes[index];
+        showRecipes(recipes.map((r, i) => i === index ? next : r));
+        setListRecipes(prev => prev.map(r => r === previous ? next : r));
+    };
+
+    // Records `revised` as the newest version of recipe `index` and shows it
+    const addRevision = (index: number, revised: Recipe, instruction: string) => {
+        const revisions = recipeRevisions[index] ?? { versions: [{ recipe: recipes[index] }], current: 0 };
+        const versions = [...revisions.versions.slice(0, revisions.current + 1), { recipe: revised, instruction }];
+        setRecipeRevisions(prev => ({ ...prev, [index]: { versions, current: versions.length - 1 } }));
+        replaceRecipe(index, revised);
+    };
+
+    const handleRefineRecipe = async (index: number, instruction: string) => {
+        const recipe = recipes[index];
+        const revisions = recipeRevisions[index] ?? { versions: [{ recipe }], current: 0 };
+        // The turns that led to the version on screen; later ones were stepped back from
+        const applied = revisions.versions.slice(1, revisions.current + 1).flatMap(v => v.instruction ? [v.instruction] : []);
+        setRefiningIndex(index);
+        setRefineError(null);
+        const signal = beginRequest();
+        try {
+            const revised = await refineRecipe(recipe, instruction, applied, servings, dietaryProfile, { signal });
+            if (signal.aborted) return;
+            addRevision(index, revised, instruction);
+        } catch (err) {
+            if (signal.aborted || isAbortError(err)) return;
+            setRefineError({ index, message: err instanceof Error ? err.message : "An unknown error occurred." });
+        } finally {
+            setRefiningIndex(current => current === index ? null : current);
+        }
+    };
+
+    const handleSelectRevision = (index: number, version: number) => {
+        const revisions = recipeRevisions[index];
+        const selected = revisions?.versions[version];
+        if (!selected) return;
+        setRecipeRevisions(prev => ({ ...prev, [index]: { ...revisions, current: version } }));
+        setRefineError(null);
+        setAiSubstitutes(null);
+        replaceRecipe(index, selected.recipe);
+    };
+
+    // Swapping in a substitute is a revision like any other, so it can be stepped back from
+    const handleSubstitute = (index: number, line: number, substitute: Substitute) => {
+        const recipe = recipes[index];
+        addRevision(index, applySubstitution(recipe, line, substitute), `Use ${substitute.item} instead of ${recipe.ingredients[line].item}`);
+        setAiSubstitutes(null);
+    };
+
+    const handleAskSubstitutes = async (index: number, line: number) => {
+        setAiSubstitutes({ index, line, substitutes: [], isLoading: true, error: null });
+        const signal = beginRequest();
+        try {
+            const substitutes = await fetchSubstitutes(recipes[index], line, availableIngredients, dietaryProfile, { signal });
+            if (signal.aborted) return;
+            setAiSubstitutes({ index, line, substitutes, isLoading: false, error: null });
+        } catch (err) {
+            if (signal.aborted || isAbortError(err)) {
+                setAiSubstitutes(prev => prev?.isLoading ? null : prev);
+                return;
+            }
+            setAiSubstitutes({ index, line, substitutes: [], isLoading: false, error: err instanceof Error ? err.message : "An unknown error occurred." });
         }
-    }, [ingredients, servings, cuisine]);
+    };
 
     const handleCaptureImage = useCallback(() => {
         if (videoRef.current && canvasRef.current) {
@@ -184,25 +467,347 @@ const App: React.FC = () => {
 
     const addIngredient = () => {
         if (newIngredientInput.trim()) {
-            setIngredients(prev => [...prev, { name: newIngredientInput.trim(), quantity: "" }]);
+            setIngredients(prev => [...prev, ingredientFromText(newIngredientInput)]);
             setNewIngredientInput("");
             // Keep focus on input for rapid entry
             setTimeout(() => ingredientInputRef.current?.focus(), 50);
         }
     };
 
+    // Recipe Box
+    const handleToggleSave = async (recipe: Recipe) => {
+        try {
+            const existing = findSavedRecipe(savedRecipes, recipe);
+            if (existing) {
+                await deleteSavedRecipe(existing.id);
+                setSavedRecipes(prev => prev.filter(s => s.id !== existing.id));
+            } else {
+                const saved = await saveRecipe({ recipe, sourceIngredients: availableIngredients, servings, options: generationOptions });
+                setSavedRecipes(prev => [saved, ...prev]);
+            }
+        } catch (err) {
+            console.error("Could not update the recipe box:", err);
+        }
+    };
+
+    const handleUpdateSaved = async (saved: SavedRecipe) => {
+        setSavedRecipes(prev => prev.map(s => (s.id === saved.id ? saved : s)));
+        try {
+            await updateSavedRecipe(saved);
+        } catch (err) {
+            console.error("Could not update saved recipe:", err);
+        }
+    };
+
+    const handleDeleteSaved = async (id: string) => {
+        setSavedRecipes(prev => prev.filter(s => s.id !== id));
+        try {
+            await deleteSavedRecipe(id);
+        } catch (err) {
+            console.error("Could not delete saved recipe:", err);
+        }
+    };
+
+    // History
+    const restoreFromHistory = (entry: HistoryEntry) => {
+        cancelRequest();
+        setImages(entry.thumbnails);
+        setIngredients(entry.ingredients);
+        setServings(entry.servings);
+        setGenerationOptions(entry.options);
+        setError(null);
+        setErrorDetails([]);
+        setIsStreaming(false);
+        setMoreError(null);
+        clearRecipeEdits();
+    };
+
+    const handleOpenHistory = (entry: HistoryEntry) => {
+        restoreFromHistory(entry);
+        setRecipes(entry.recipes);
+        setCurrentHistoryId(entry.id);
+        setLoadingState(LoadingState.SHOWING_RESULTS);
+    };
+
+    const handleRegenerateFromHistory = (entry: HistoryEntry) => {
+        restoreFromHistory(entry);
+        setRecipes([]);
+        setLoadingState(LoadingState.REVIEW_INGREDIENTS);
+    };
+
+    const handleDeleteHistory = async (id: string) => {
+        setHistory(prev => prev.filter(e => e.id !== id));
+        try {
+            await deleteHistoryEntry(id);
+        } catch (err) {
+            console.error("Could not delete history entry:", err);
+        }
+    };
+
+    // Cancel from a loading screen: abort and step back to where the request started
+    const handleCancelLoading = () => {
+        const previousState = loadingState === LoadingState.FETCHING_RECIPES
+            ? LoadingState.REVIEW_INGREDIENTS
+            : LoadingState.IDLE;
+        cancelRequest();
+        setIsStreaming(false);
+        setLoadingState(previousState);
+    };
+
+    // Shopping list
+    // Only recipes still on screen count; a new search or history entry replaces them.
+    const selectedListRecipes = listRecipes.filter(r => recipes.includes(r));
+
+    const handleToggleListRecipe = (recipe: Recipe) => {
+        setListRecipes(prev => prev.includes(recipe) ? prev.filter(r => r !== recipe) : [...prev, recipe]);
+    };
+
+    const handleToggleListItem = (key: string) => {
+        setCheckedListItems(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+    };
+
+    const handleOpenShoppingList = (source: 'results' | 'mealPlan') => {
+        setListSource(source);
+        setLoadingState(LoadingState.SHOPPING_LIST);
+    };
+
+    // Meal plan
+    // Applied to the latest state so streamed fills and manual edits don't overwrite each other.
+    const updateMealPlan = (update: (plan: MealPlan) => MealPlan) => {
+        setMealPlan(prev => {
+            if (!prev) return prev;
+            const next = update(prev);
+            if (next !== prev) {
+                saveMealPlan(next).catch(err => console.error("Could not save meal plan:", err));
+            }
+            return next;
+        });
+    };
+
+    const handleOpenMealPlan = () => {
+        setPlanReturnState(loadingState);
+        setPlanError(null);
+        setLoadingState(LoadingState.MEAL_PLAN);
+    };
+
+    const handleAssignMeal = (slot: MealSlot, planned: PlannedMeal | null) => {
+        updateMealPlan(plan => withPlannedMeal(plan, slot, planned));
+    };
+
+    const handleChangePlanWeek = (weeks: number) => {
+        if (!mealPlan) return;
+        if (isFillingPlan) handleCancelFillPlan();
+        getMealPlan(shiftWeek(mealPlan.weekStart, weeks))
+            .then(setMealPlan)
+            .catch(err => console.error("Could not load meal plan:", err));
+    };
+
+    const handleChangePlanServings = (planServings: number) => {
+        updateMealPlan(plan => ({ ...plan, servings: planServings, updatedAt: Date.now() }));
+    };
+
+    // Asks for one recipe per empty slot, using the current ingredients and pantry up first.
+    // Recipes land in their slots as they stream in.
+    const handleFillMealPlan = async () => {
+        if (!mealPlan) return;
+        const slots = emptySlots(mealPlan);
+        if (slots.length === 0) return;
+        const { weekStart, servings: planServings } = mealPlan;
+        planRequestRef.current?.abort();
+        const controller = new AbortController();
+        planRequestRef.current = controller;
+        const { signal } = controller;
+        setIsFillingPlan(true);
+        setPlanError(null);
+
+        // By position in the stream, so a recipe dropped by validation leaves its own slot empty
+        const assign = (recipe: Recipe, _index: number, position: number) => {
+            const slot = slots[position];
+            if (!slot || signal.aborted) return;
+            updateMealPlan(plan =>
+                plan.weekStart === weekStart && !getPlannedMeal(plan, slot)
+                    ? withPlannedMeal(plan, slot, { recipe, servings: planServings })
+                    : plan
+            );
+        };
+
+        try {
+            await fetchMealPlanRecipes(availableIngredients, planServings, slots.map(slot => slotLabel(weekStart, slot)), dietaryProfile, {
+                signal,
+                onRecipe: assign,
+            });
+        } catch (err) {
+            if (signal.aborted || isAbortError(err)) return;
+            setPlanError(err instanceof Error ? err.message : "Could not fill the meal plan.");
+        } finally {
+            if (!signal.aborted) setIsFillingPlan(false);
+        }
+    };
+
+    const handleCancelFillPlan = () => {
+        planRequestRef.current?.abort();
+        planRequestRef.current = null;
+        setIsFillingPlan(false);
+    };
+
+    const handleUnitSystemChange = (system: UnitSystem) => {
+        setUnitSystem(system);
+        savePreferences({ ...loadPreferences(), unitSystem: system });
+    };
+
+    const handleNutritionTargetsChange = (targets: NutritionTargets) => {
+        setNutritionTargets(targets);
+        savePreferences({ ...loadPreferences(), nutritionTargets: targets });
+    };
+
+    const handleDietaryProfileChange = (profile: DietaryProfile) => {
+        setDietaryProfile(profile);
+        savePreferences({ ...loadPreferences(), dietaryProfile: profile });
+    };
+
+    const handleAddScanToPantry = () => {
+        addToPantry(pantry, ingredients)
+            .then(next => {
+                setPantry(next);
+                setIsScanInPantry(true);
+            })
+            .catch(err => console.error("Could not add to pantry:", err));
+    };
+
+    const handleAddPantryItem = (text: string) => {
+        addToPantry(pantry, [ingredientFromText(text)])
+            .then(setPantry)
+            .catch(err => console.error("Could not add to pantry:", err));
+    };
+
+    const handleUpdatePantryItem = (item: PantryItem, changes: { quantity?: string; expiresAt?: number | null }) => {
+        let next = changes.quantity !== undefined ? withPantryQuantity(item, changes.quantity) : item;
+        if (changes.expiresAt !== undefined) next = { ...next, expiresAt: changes.expiresAt, expiryEdited: true, updatedAt: Date.now() };
+        setPantry(prev => prev.map(i => i.id === item.id ? next : i));
+        savePantryItem(next).catch(err => console.error("Could not update pantry item:", err));
+    };
+
+    const handleRemovePantryItem = (id: string) => {
+        setPantry(prev => prev.filter(i => i.id !== id));
+        deletePantryItem(id).catch(err => console.error("Could not remove pantry item:", err));
+    };
+
+    // Takes what a cooked recipe used out of the pantry
+    const handleCooked = (uses: PantryUse[]) => {
+        applyPantryUses(pantry, uses)
+            .then(setPantry)
+            .catch(err => console.error("Could not update pantry:", err));
+    };
+
+    // Straight to review with nothing scanned, so the recipes come from the pantry alone
+    const handleCookFromPantry = () => {
+        cancelRequest();
+        setImages([]);
+        setIngredients([]);
+        setUsePantry(true);
+        setError(null);
+        setErrorDetails([]);
+        setLoadingState(LoadingState.REVIEW_INGREDIENTS);
+    };
+
     const handleReset = () => {
+        cancelRequest();
         stopCamera();
         setLoadingState(LoadingState.IDLE);
         setImages([]);
         setIngredients([]);
         setRecipes([]);
+        setIsStreaming(false);
+        setMoreError(null);
+        setCurrentHistoryId(null);
+        clearRecipeEdits();
         setError(null);
+        setErrorDetails([]);
         setServings(1);
-        setCuisine("Open");
+        setGenerationOptions(DEFAULT_GENERATION_OPTIONS);
         setNewIngredientInput("");
+        setListRecipes([]);
+        setCheckedListItems([]);
+        handleCancelFillPlan();
     };
 
+    const optionSummary = summarizeGenerationOptions(generationOptions);
+    // Positions are kept so per-recipe handlers still address `recipes` after sorting
+    const rankedRecipes = useMemo(
+        () => recipes
+            .map((recipe, index) => ({ recipe, index, coverage: scorePantryCoverage(recipe, availableIngredients, expiringNames) }))
+            .filter(r => maxMissing === null || !r.coverage || r.coverage.missing <= maxMissing)
+            .sort(compareCoverage(coverageSort)),
+        [recipes, availableIngredients, expiringNames, coverageSort, maxMissing]
+    );
+
+    // Something on the results screen is waiting on the AI; starting another request would cancel it
+    const isRequestPending = isStreaming || refiningIndex !== null || !!aiSubstitutes?.isLoading;
+
+    // Serving size, time budget and filters, shown on the home screen and when reviewing ingredients
+    const renderPreferenceControls = () => (
+        <div className="mb-8 w-full px-2 grid grid-cols-2 gap-4 sm:gap-6">
+            {/* Serving Size */}
+            <div className="flex flex-col items-center gap-3">
+                <label htmlFor="servings" className="text-sm sm:text-base text-gray-400 font-medium uppercase tracking-wider">
+                    Serving Size
+                </label>
+                <div className="flex items-center justify-between bg-gray-800 rounded-2xl p-1.5 shadow-inner border border-gray-700/50 w-full max-w-[160px]">
+                    <button 
+                        onClick={() => setServings(s => Math.max(1, s - 1))}
+                        className="w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-bold text-xl flex items-center justify-center transition-all duration-200 active:scale-95 border border-gray-600"
+                        aria-label="Decrease servings"
+                    >
+                        -
+                    </button>
+                    <span className="flex-grow text-center text-xl sm:text-2xl font-bold text-teal-300">
+                        {servings}
+                    </span>
+                    <button 
+                        onClick={() => setServings(s => s + 1)}
+                        className="w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-bold text-xl flex items-center justify-center transition-all duration-200 active:scale-95 border border-gray-600"
+                        aria-label="Increase servings"
+                    >
+                        +
+                    </button>
+                </div>
+            </div>
+
+            {/* Time Budget */}
+            <div className="flex flex-col items-center gap-3">
+                <label htmlFor="max-time" className="text-sm sm:text-base text-gray-400 font-medium uppercase tracking-wider">
+                    Time
+                </label>
+                <div className="relative w-full max-w-[160px] h-full">
+                    <select 
+                        id="max-time"
+                        value={generationOptions.maxPrepMinutes ?? ''}
+                        onChange={(e) => setGenerationOptions(prev => ({ ...prev, maxPrepMinutes: e.target.value ? Number(e.target.value) : null }))}
+                        className="w-full h-[54px] sm:h-[62px] bg-gray-800 text-white border border-gray-700/50 rounded-2xl pl-3 pr-8 py-2 appearance-none focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 text-center text-base sm:text-lg font-medium shadow-inner cursor-pointer truncate"
+                    >
+                        <option value="">Any time</option>
+                        {PREP_TIME_LIMITS.map(minutes => (
+                            <option key={minutes} value={minutes}>≤ {minutes} min</option>
+                        ))}
+                    </select>
+                    <div className="absolute inset-y-0 right-2 sm:right-3 flex items-center pointer-events-none text-teal-500">
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                        </svg>
+                    </div>
+                </div>
+            </div>
+
+            <div className="col-span-2">
+                <GenerationOptionsPanel
+                    options={generationOptions}
+                    onChange={setGenerationOptions}
+                    profileDiets={dietaryProfile.diets}
+                />
+            </div>
+        </div>
+    );
+
     const renderContent = () => {
         switch (loadingState) {
             case LoadingState.IDLE:
@@ -230,9 +835,83 @@ const App: React.FC = () => {
                             Snap a photo of the ingredients you have on hand, tell me your preferences (if any), and I'll provide delicious recipes you can make with full instructions.
                         </p>
                         
+                        <div className="mb-6 flex flex-wrap justify-center gap-3">
+                            <button
+                                onClick={() => setLoadingState(LoadingState.RECIPE_BOX)}
+                                className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-teal-500/50 text-sm font-medium transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                                </svg>
+                                Recipe Box{savedRecipes.length > 0 && ` (${savedRecipes.length})`}
+                            </button>
+                            <button
+                                onClick={() => setLoadingState(LoadingState.HISTORY)}
+                                className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-teal-500/50 text-sm font-medium transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                History{history.length > 0 && ` (${history.length})`}
+                            </button>
+                            <button
+                                onClick={handleOpenMealPlan}
+                                className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-teal-500/50 text-sm font-medium transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                </svg>
+                                Meal Plan
+                            </button>
+                            <button
+                                onClick={() => setLoadingState(LoadingState.PANTRY)}
+                                className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-teal-500/50 text-sm font-medium transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                                </svg>
+                                Pantry{pantry.length > 0 && ` (${pantry.length})`}
+                            </button>
+                            <button
+                                onClick={() => setLoadingState(LoadingState.PROFILE)}
+                                className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-teal-500/50 text-sm font-medium transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                                </svg>
+                                Profile
+                            </button>
+                        </div>
+
+                        {expiringSoon.length > 0 && (
+                            <div className="mb-6 p-4 bg-amber-900/30 border border-amber-700/50 rounded-xl text-amber-100 text-sm w-full" role="status">
+                                <p className="font-semibold mb-1">Use these soon</p>
+                                <ul className="text-xs text-amber-200/90 space-y-0.5 mb-3">
+                                    {expiringSoon.slice(0, 5).map(item => (
+                                        <li key={item.id}>{item.name} — {formatExpiry(item.expiresAt).toLowerCase()}</li>
+                                    ))}
+                                    {expiringSoon.length > 5 && <li>and {expiringSoon.length - 5} more</li>}
+                                </ul>
+                                <button
+                                    onClick={handleCookFromPantry}
+                                    className="px-3 py-1.5 rounded-lg bg-amber-600/80 hover:bg-amber-500 text-white text-xs font-bold transition-colors"
+                                >
+                                    Find recipes that use them
+                                </button>
+                            </div>
+                        )}
+
                         {loadingState === LoadingState.ERROR && error && (
                             <div className="mb-6 p-4 bg-red-900/50 border border-red-700 rounded-xl text-red-200 text-center text-sm w-full">
                                 {error}
+                                {errorDetails.length > 0 && (
+                                    <details className="mt-2 text-left text-xs text-red-300/80">
+                                        <summary className="cursor-pointer text-center">Details</summary>
+                                        <ul className="mt-2 list-disc pl-4 space-y-1">
+                                            {errorDetails.map((detail, idx) => <li key={idx}>{detail}</li>)}
+                                        </ul>
+                                    </details>
+                                )}
                             </div>
                         )}
 
@@ -259,58 +938,7 @@ const App: React.FC = () => {
                             </button>
                         </div>
 
-                        {/* Controls Section */}
-                        <div className="mb-8 w-full px-2 grid grid-cols-2 gap-4 sm:gap-6">
-                            {/* Serving Size */}
-                            <div className="flex flex-col items-center gap-3">
-                                <label htmlFor="servings" className="text-sm sm:text-base text-gray-400 font-medium uppercase tracking-wider">
-                                    Serving Size
-                                </label>
-                                <div className="flex items-center justify-between bg-gray-800 rounded-2xl p-1.5 shadow-inner border border-gray-700/50 w-full max-w-[160px]">
-                                    <button 
-                                        onClick={() => setServings(s => Math.max(1, s - 1))}
-                                        className="w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-bold text-xl flex items-center justify-center transition-all duration-200 active:scale-95 border border-gray-600"
-                                        aria-label="Decrease servings"
-                                    >
-                                        -
-                                    </button>
-                                    <span className="flex-grow text-center text-xl sm:text-2xl font-bold text-teal-300">
-                                        {servings}
-                                    </span>
-                                    <button 
-                                        onClick={() => setServings(s => s + 1)}
-                                        className="w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-bold text-xl flex items-center justify-center transition-all duration-200 active:scale-95 border border-gray-600"
-                                        aria-label="Increase servings"
-                                    >
-                                        +
-                                    </button>
-                                </div>
-                            </div>
-
-                            {/* Cuisine Preference */}
-                            <div className="flex flex-col items-center gap-3">
-                                <label htmlFor="cuisine" className="text-sm sm:text-base text-gray-400 font-medium uppercase tracking-wider">
-                                    Preference
-                                </label>
-                                <div className="relative w-full max-w-[160px] h-full">
-                                    <select 
-                                        id="cuisine"
-                                        value={cuisine}
-                                        onChange={(e) => setCuisine(e.target.value)}
-                                        className="w-full h-[54px] sm:h-[62px] bg-gray-800 text-white border border-gray-700/50 rounded-2xl pl-3 pr-8 py-2 appearance-none focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 text-center text-base sm:text-lg font-medium shadow-inner cursor-pointer truncate"
-                                    >
-                                        {CUISINE_OPTIONS.map(opt => (
-                                            <option key={opt} value={opt}>{opt}</option>
-                                        ))}
-                                    </select>
-                                    <div className="absolute inset-y-0 right-2 sm:right-3 flex items-center pointer-events-none text-teal-500">
-                                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
-                                        </svg>
-                                    </div>
-                                </div>
-                            </div>
-                        </div>
+                        {renderPreferenceControls()}
 
                         {/* Image Gallery / Staging Area */}
                         {images.length > 0 && (
@@ -421,6 +1049,13 @@ const App: React.FC = () => {
                                 ? `Scanning ${images.length} photo${images.length > 1 ? 's' : ''} for ingredients.` 
                                 : "Designing recipes based on your selection."}
                         </p>
+
+                        <button 
+                            onClick={handleCancelLoading}
+                            className="mt-10 bg-gray-800 hover:bg-gray-700 active:scale-95 text-gray-300 hover:text-white font-bold py-3 px-8 rounded-2xl transition-all duration-200 border border-gray-700"
+                        >
+                            Cancel
+                        </button>
                     </div>
                 );
 
@@ -434,6 +1069,8 @@ const App: React.FC = () => {
                             We found these items. Add or remove anything.
                         </p>
 
+                        {renderPreferenceControls()}
+
                         <div className="flex-grow overflow-y-auto px-2 mb-6 space-y-3 scrollbar-hide">
                              {/* Add Ingredient Input */}
                             <div className="flex gap-2 mb-4">
@@ -476,17 +1113,46 @@ const App: React.FC = () => {
                                     </button>
                                 </div>
                             ))}
-                            {ingredients.length === 0 && (
+                            {ingredients.length === 0 && !(usePantry && pantry.length > 0) && (
                                 <div className="text-center py-8 text-gray-500 italic border-2 border-dashed border-gray-700 rounded-xl">
                                     No ingredients listed.<br/>Add some manually or rescan.
                                 </div>
                             )}
+
+                            {ingredients.length > 0 && (
+                                <button
+                                    onClick={handleAddScanToPantry}
+                                    disabled={isScanInPantry}
+                                    className="w-full py-2 text-sm font-medium text-teal-300 hover:text-teal-200 disabled:text-gray-500 disabled:cursor-default transition-colors"
+                                >
+                                    {isScanInPantry ? "Added to your pantry" : "Add these to my pantry"}
+                                </button>
+                            )}
+
+                            {pantry.length > 0 && (
+                                <div className="p-3 rounded-xl bg-gray-800/60 border border-gray-700">
+                                    <label className="flex items-center gap-3 text-sm text-gray-200">
+                                        <input
+                                            type="checkbox"
+                                            checked={usePantry}
+                                            onChange={e => setUsePantry(e.target.checked)}
+                                            className="accent-teal-500"
+                                        />
+                                        Also cook from my pantry ({pantry.length} item{pantry.length === 1 ? '' : 's'})
+                                    </label>
+                                    {usePantry && expiringNames.length > 0 && (
+                                        <p className="mt-2 text-xs text-amber-200/90">
+                                            Recipes will use these first, as they expire soon: {expiringNames.join(', ')}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                         </div>
 
                         <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex flex-col gap-3 max-w-md mx-auto w-full">
                             <button 
                                 onClick={handleGenerateRecipes}
-                                disabled={ingredients.length === 0}
+                                disabled={availableIngredients.length === 0}
                                 className="pointer-events-auto w-full bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-400 hover:to-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-2xl text-lg transition-all duration-300 shadow-lg shadow-teal-900/50 flex items-center justify-center gap-2"
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -513,23 +1179,117 @@ const App: React.FC = () => {
                             </h2>
                             <div className="flex flex-col gap-1 text-gray-400 text-sm sm:text-base">
                                 <p>
-                                    {recipes.length} recipes found for {servings} serving{servings > 1 ? 's' : ''}
+                                    {isStreaming
+                                        ? `Plating up recipes for ${servings} serving${servings > 1 ? 's' : ''}...`
+                                        : `${recipes.length} recipes found for ${servings} serving${servings > 1 ? 's' : ''}`}
                                 </p>
-                                {cuisine !== "Open" && (
+                                {optionSummary.length > 0 && (
                                     <p className="text-teal-400 font-medium">
-                                        Style: {cuisine}
+                                        {optionSummary.join(' · ')}
+                                    </p>
+                                )}
+                                {!isEmptyProfile(dietaryProfile) && (
+                                    <p className="text-xs text-gray-500">
+                                        Following your profile: {[
+                                            ...dietaryProfile.diets.map(d => DIET_LABELS[d]),
+                                            ...dietaryProfile.allergens.map(a => `no ${ALLERGEN_LABELS[a].toLowerCase()}`),
+                                            ...dietaryProfile.avoid.map(a => `no ${a}`),
+                                        ].join(', ')}
                                     </p>
                                 )}
                             </div>
+                            <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+                                <UnitSystemToggle value={unitSystem} onChange={handleUnitSystemChange} />
+                                <button
+                                    onClick={handleOpenMealPlan}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-800 border border-gray-700/50 text-gray-300 hover:text-white text-xs sm:text-sm font-medium transition-colors"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                    </svg>
+                                    Meal Plan
+                                </button>
+                            </div>
                         </div>
                         
+                        {availableIngredients.length > 0 && recipes.length > 0 && (
+                            <CoverageControls
+                                sort={coverageSort}
+                                onSortChange={setCoverageSort}
+                                maxMissing={maxMissing}
+                                onMaxMissingChange={setMaxMissing}
+                                shownCount={rankedRecipes.length}
+                                totalCount={recipes.length}
+                            />
+                        )}
+
                         <div className="space-y-6 px-2 sm:px-0">
-                            {recipes.map((recipe, index) => (
-                                <RecipeCard key={index} recipe={recipe} />
+                            {rankedRecipes.length === 0 && recipes.length > 0 && (
+                                <p className="text-center text-sm text-gray-400 py-6">
+                                    None of these recipes match that filter. Try allowing more missing ingredients.
+                                </p>
+                            )}
+                            {rankedRecipes.map(({ recipe, index, coverage }) => (
+                                <RecipeCard
+                                    key={index}
+                                    recipe={recipe}
+                                    servings={servings}
+                                    unitSystem={unitSystem}
+                                    nutritionTargets={nutritionTargets}
+                                    dietaryProfile={dietaryProfile}
+                                    isSaved={!!findSavedRecipe(savedRecipes, recipe)}
+                                    onToggleSave={() => handleToggleSave(recipe)}
+                                    isOnShoppingList={selectedListRecipes.includes(recipe)}
+                                    onToggleShoppingList={() => handleToggleListRecipe(recipe)}
+                                    onMoreLikeThis={() => handleMoreLikeThis(recipe)}
+                                    isRequestPending={isRequestPending}
+                                    onRefine={instruction => handleRefineRecipe(index, instruction)}
+                                    revisions={recipeRevisions[index]}
+                                    onSelectRevision={version => handleSelectRevision(index, version)}
+                                    isRefining={refiningIndex === index}
+                                    refineError={refineError?.index === index ? refineError.message : null}
+                                    availableIngredients={availableIngredients}
+                                    onSubstitute={(line, substitute) => handleSubstitute(index, line, substitute)}
+                                    onAskSubstitutes={line => handleAskSubstitutes(index, line)}
+                                    aiSubstitutes={aiSubstitutes?.index === index ? aiSubstitutes : null}
+                                    coverage={coverage}
+                                    pantry={pantry}
+                                    onCooked={pantry.length > 0 ? handleCooked : undefined}
+                                />
+                            ))}
+                            {isStreaming && Array.from({ length: Math.max(0, expectedRecipeCount - recipes.length) }, (_, idx) => (
+                                <RecipeCardSkeleton key={`skeleton-${idx}`} />
                             ))}
                         </div>
 
-                        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center">
+                        <div className="mt-6 flex flex-col items-center gap-3 px-2 sm:px-0">
+                            {moreError && (
+                                <p className="text-sm text-red-300 text-center" role="alert">{moreError}</p>
+                            )}
+                            <button
+                                onClick={handleGenerateMore}
+                                disabled={isRequestPending}
+                                className="flex items-center gap-2 px-5 py-2.5 rounded-full bg-gray-800 border border-gray-700 text-teal-300 hover:text-teal-200 hover:border-teal-500/50 disabled:text-gray-500 disabled:border-gray-700 disabled:cursor-not-allowed font-medium transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                </svg>
+                                {isStreaming ? "Cooking up more..." : "Generate more"}
+                            </button>
+                        </div>
+
+                        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center gap-3">
+                            {selectedListRecipes.length > 0 && (
+                                <button
+                                    onClick={() => handleOpenShoppingList('results')}
+                                    className="pointer-events-auto bg-gray-800 hover:bg-gray-700 active:scale-95 text-teal-300 font-bold py-3 px-6 rounded-full shadow-lg border border-teal-500/40 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                                    </svg>
+                                    List ({selectedListRecipes.length})
+                                </button>
+                            )}
                             <button 
                                 onClick={handleReset}
                                 className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
@@ -542,6 +1302,99 @@ const App: React.FC = () => {
                         </div>
                     </div>
                 );
+
+            case LoadingState.RECIPE_BOX:
+                return (
+                    <RecipeBox
+                        savedRecipes={savedRecipes}
+                        unitSystem={unitSystem}
+                        onUnitSystemChange={handleUnitSystemChange}
+                        nutritionTargets={nutritionTargets}
+                        dietaryProfile={dietaryProfile}
+                        onUpdate={handleUpdateSaved}
+                        onDelete={handleDeleteSaved}
+                        onBack={() => setLoadingState(LoadingState.IDLE)}
+                    />
+                );
+
+            case LoadingState.SHOPPING_LIST:
+                return (
+                    <ShoppingList
+                        recipes={listSource === 'mealPlan' && mealPlan ? plannedRecipes(mealPlan) : selectedListRecipes}
+                        have={availableIngredients}
+                        unitSystem={unitSystem}
+                        checked={checkedListItems}
+                        onToggleChecked={handleToggleListItem}
+                        onBack={() => setLoadingState(listSource === 'mealPlan' ? LoadingState.MEAL_PLAN : LoadingState.SHOWING_RESULTS)}
+                    />
+                );
+
+            case LoadingState.MEAL_PLAN:
+                if (!mealPlan) {
+                    return (
+                        <div className="flex flex-col items-center justify-center gap-4 py-20 text-gray-400">
+                            <Spinner />
+                            Loading your meal plan...
+                        </div>
+                    );
+                }
+                return (
+                    <MealPlanner
+                        plan={mealPlan}
+                        savedRecipes={savedRecipes}
+                        currentRecipes={recipes}
+                        currentServings={servings}
+                        unitSystem={unitSystem}
+                        nutritionTargets={nutritionTargets}
+                        dietaryProfile={dietaryProfile}
+                        isFilling={isFillingPlan}
+                        fillError={planError}
+                        onAssign={handleAssignMeal}
+                        onChangeWeek={handleChangePlanWeek}
+                        onChangeServings={handleChangePlanServings}
+                        onFill={handleFillMealPlan}
+                        onCancelFill={handleCancelFillPlan}
+                        onOpenShoppingList={() => handleOpenShoppingList('mealPlan')}
+                        onBack={() => {
+                            handleCancelFillPlan();
+                            setLoadingState(planReturnState);
+                        }}
+                    />
+                );
+
+            case LoadingState.PROFILE:
+                return (
+                    <ProfileSettings
+                        nutritionTargets={nutritionTargets}
+                        onChangeTargets={handleNutritionTargetsChange}
+                        dietaryProfile={dietaryProfile}
+                        onChangeProfile={handleDietaryProfileChange}
+                        onBack={() => setLoadingState(LoadingState.IDLE)}
+                    />
+                );
+
+            case LoadingState.HISTORY:
+                return (
+                    <HistoryView
+                        entries={history}
+                        onOpen={handleOpenHistory}
+                        onRegenerate={handleRegenerateFromHistory}
+                        onDelete={handleDeleteHistory}
+                        onBack={() => setLoadingState(LoadingState.IDLE)}
+                    />
+                );
+
+            case LoadingState.PANTRY:
+                return (
+                    <PantryManager
+                        items={pantry}
+                        onAdd={handleAddPantryItem}
+                        onUpdate={handleUpdatePantryItem}
+                        onRemove={handleRemovePantryItem}
+                        onCook={handleCookFromPantry}
+                        onBack={() => setLoadingState(LoadingState.IDLE)}
+                    />
+                );
         }
     };
 
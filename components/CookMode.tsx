@@ -0,0 +1,301 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Recipe } from '../types';
+import { clearCookStep, loadCookStep, saveCookStep } from '../services/cookProgress';
+import { isSpeechRecognitionSupported, isSpeechSynthesisSupported, listenForPhrases, speak, stopSpeaking } from '../services/speech';
+import { describeDuration, findDurations } from '../utils/durations';
+import type { DurationRange } from '../utils/durations';
+import { formatRecipeIngredient } from '../utils/ingredients';
+import { answerHowMuch, describeIngredientsForSpeech, describeStepForSpeech, parseVoiceCommand } from '../utils/voiceCommands';
+import type { VoiceCommand } from '../utils/voiceCommands';
+import InstructionText from './InstructionText';
+
+interface CookModeProps {
+  // As shown on the card: scaled and converted
+  recipe: Recipe;
+  onStartTimer: (duration: DurationRange, step: number) => void;
+  onClose: () => void;
+}
+
+// Horizontal travel, in pixels, that counts as a swipe.
+const SWIPE_DISTANCE = 50;
+
+// Keeps the screen on while mounted, where the browser supports it. The lock is
+// dropped whenever the page is hidden, so it's asked for again on return.
+const useScreenWakeLock = () => {
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = () => {
+      navigator.wakeLock.request('screen')
+        .then(sentinel => {
+          if (released) sentinel.release().catch(() => {});
+          else lock = sentinel;
+        })
+        .catch(err => console.warn("Could not keep the screen awake:", err));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      lock?.release().catch(() => {});
+    };
+  }, []);
+};
+
+// Full-screen, one step at a time, for cooking with messy hands: swipe, use the
+// arrow keys or speak to move between steps, and have each step read aloud.
+// Leaving remembers the step for next time.
+const CookMode: React.FC<CookModeProps> = ({ recipe, onStartTimer, onClose }) => {
+  const [step, setStep] = useState(() => loadCookStep(recipe));
+  const [resumed] = useState(step > 0);
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [readAloud, setReadAloud] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  // What was last heard or answered, shown so the user knows they were understood
+  const [voiceFeedback, setVoiceFeedback] = useState<string | null>(null);
+  const touchStartX = useRef<number | null>(null);
+  const total = recipe.instructions.length;
+  const isLast = step === total - 1;
+  const canSpeak = isSpeechSynthesisSupported();
+  const canListen = isSpeechRecognitionSupported();
+
+  useScreenWakeLock();
+
+  useEffect(() => {
+    saveCookStep(recipe, step);
+  }, [recipe, step]);
+
+  const goTo = (next: number) => setStep(Math.min(Math.max(next, 0), total - 1));
+
+  const finish = () => {
+    clearCookStep(recipe);
+    onClose();
+  };
+
+  // Reads each step as it comes up while read-aloud is on
+  useEffect(() => {
+    if (readAloud) speak(describeStepForSpeech(recipe.instructions[step], step, total));
+  }, [readAloud, step, recipe, total]);
+
+  useEffect(() => {
+    if (!readAloud) stopSpeaking();
+  }, [readAloud]);
+
+  useEffect(() => stopSpeaking, []);
+
+  // Answers out loud where possible, and on screen regardless
+  const reply = (text: string) => {
+    setVoiceFeedback(text);
+    if (canSpeak) speak(text);
+  };
+
+  const runCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'next':
+        if (isLast) reply("That was the last step.");
+        else goTo(step + 1);
+        break;
+      case 'previous':
+        goTo(step - 1);
+        break;
+      case 'goTo':
+        if (command.step < total) goTo(command.step);
+        else reply(`There are only ${total} steps.`);
+        break;
+      case 'repeat':
+        if (canSpeak) speak(describeStepForSpeech(recipe.instructions[step], step, total));
+        break;
+      case 'startTimer': {
+        const duration = command.duration ?? findDurations(recipe.instructions[step])[0];
+        if (!duration) {
+          reply("There's no time in this step. Try “start a timer for 5 minutes”.");
+          break;
+        }
+        onStartTimer(duration, step);
+        reply(duration.maxSeconds !== null
+          ? `Timer started for ${describeDuration(duration.maxSeconds)}. I'll remind you to check at ${describeDuration(duration.seconds)}.`
+          : `Timer started for ${describeDuration(duration.seconds)}.`);
+        break;
+      }
+      case 'howMuch':
+        reply(answerHowMuch(recipe, command.item));
+        break;
+      case 'ingredients':
+        setShowIngredients(true);
+        if (canSpeak) speak(describeIngredientsForSpeech(recipe));
+        break;
+      case 'stop':
+        stopSpeaking();
+        break;
+      case 'exit':
+        onClose();
+        break;
+    }
+  };
+
+  // Recognition outlives renders, so phrases go through a ref to the latest handler
+  const handlePhraseRef = useRef<(phrase: string) => void>(() => {});
+  handlePhraseRef.current = (phrase: string) => {
+    const command = parseVoiceCommand(phrase);
+    if (command) {
+      setVoiceFeedback(`“${phrase.trim()}”`);
+      runCommand(command);
+    } else {
+      setVoiceFeedback(`Didn't catch a command in “${phrase.trim()}”.`);
+    }
+  };
+
+  useEffect(() => {
+    if (!isListening) return;
+    const listener = listenForPhrases(
+      phrase => handlePhraseRef.current(phrase),
+      message => {
+        setVoiceFeedback(message);
+        setIsListening(false);
+      },
+    );
+    return () => listener.stop();
+  }, [isListening]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'ArrowRight' || e.key === 'PageDown' || e.key === ' ') {
+        e.preventDefault();
+        setStep(s => Math.min(s + 1, total - 1));
+      } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+        e.preventDefault();
+        setStep(s => Math.max(s - 1, 0));
+      } else if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [total, onClose]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const distance = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (distance <= -SWIPE_DISTANCE) goTo(step + 1);
+    else if (distance >= SWIPE_DISTANCE) goTo(step - 1);
+  };
+
+  return (
+    <div
+        className="fixed inset-0 z-[90] bg-gray-900 text-white flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Cooking ${recipe.recipeName}`}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+    >
+        <div className="flex items-center justify-between gap-3 px-4 sm:px-8 pt-4">
+            <button
+                onClick={onClose}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-gray-300 hover:text-white hover:bg-gray-800 transition-colors"
+            >
+                ← Exit
+            </button>
+            <p className="text-sm text-gray-400 truncate">{recipe.recipeName}</p>
+            <button
+                onClick={() => setShowIngredients(open => !open)}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-teal-300 hover:text-teal-200 hover:bg-gray-800 transition-colors"
+                aria-expanded={showIngredients}
+            >
+                Ingredients
+            </button>
+        </div>
+
+        {/* Progress */}
+        <div className="px-4 sm:px-8 mt-3">
+            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-teal-500 transition-all duration-300" style={{ width: `${((step + 1) / total) * 100}%` }}></div>
+            </div>
+            <p className="mt-2 text-xs sm:text-sm text-gray-400" aria-live="polite">
+                Step {step + 1} of {total}
+                {resumed && step > 0 && <span className="text-gray-500"> · picked up where you left off</span>}
+            </p>
+            {(canSpeak || canListen) && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                    {canSpeak && (
+                        <button
+                            onClick={() => setReadAloud(on => !on)}
+                            className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-colors ${
+                                readAloud ? 'bg-teal-500/20 border-teal-500/50 text-teal-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                            }`}
+                            aria-pressed={readAloud}
+                        >
+                            Read aloud
+                        </button>
+                    )}
+                    {canListen && (
+                        <button
+                            onClick={() => {
+                                setVoiceFeedback(null);
+                                setIsListening(on => !on);
+                            }}
+                            className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-colors ${
+                                isListening ? 'bg-red-500/20 border-red-500/50 text-red-200 animate-pulse-subtle' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                            }`}
+                            aria-pressed={isListening}
+                        >
+                            {isListening ? "Listening" : "Voice commands"}
+                        </button>
+                    )}
+                    {isListening && !voiceFeedback && (
+                        <span className="text-xs text-gray-500">Say “next”, “repeat”, “start timer” or “how much butter?”</span>
+                    )}
+                    {voiceFeedback && (
+                        <span className="text-xs sm:text-sm text-gray-300" aria-live="polite">{voiceFeedback}</span>
+                    )}
+                </div>
+            )}
+        </div>
+
+        {showIngredients ? (
+            <ul className="flex-grow overflow-y-auto px-4 sm:px-8 py-6 space-y-3 text-lg sm:text-2xl text-gray-200">
+                {recipe.ingredients.map((ingredient, index) => (
+                    <li key={index}>{formatRecipeIngredient(ingredient)}</li>
+                ))}
+            </ul>
+        ) : (
+            <div className="flex-grow overflow-y-auto flex items-center px-4 sm:px-8 py-6">
+                <p key={step} className="text-2xl sm:text-4xl leading-snug sm:leading-snug font-medium animate-fade-in-up">
+                    <InstructionText text={recipe.instructions[step]} onStartTimer={duration => onStartTimer(duration, step)} large />
+                </p>
+            </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 px-4 sm:px-8 pb-6 pt-2">
+            <button
+                onClick={() => goTo(step - 1)}
+                disabled={step === 0}
+                className="py-5 rounded-2xl text-lg font-bold bg-gray-800 text-gray-200 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+                Back
+            </button>
+            <button
+                onClick={() => isLast ? finish() : goTo(step + 1)}
+                className="py-5 rounded-2xl text-lg font-bold bg-teal-600 text-white hover:bg-teal-500 transition-colors"
+            >
+                {isLast ? "Done" : "Next"}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default CookMode;
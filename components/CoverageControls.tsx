@@ -0,0 +1,60 @@
+import React from 'react';
+import type { CoverageSort } from '../utils/pantryCoverage';
+import { COVERAGE_SORTS, COVERAGE_SORT_LABELS } from '../utils/pantryCoverage';
+
+interface CoverageControlsProps {
+  sort: CoverageSort;
+  onSortChange: (sort: CoverageSort) => void;
+  // Most missing ingredients a recipe may have to be shown; null shows all
+  maxMissing: number | null;
+  onMaxMissingChange: (maxMissing: number | null) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+const MISSING_FILTERS: { value: number | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 0, label: 'Nothing missing' },
+  { value: 1, label: '≤ 1 missing' },
+  { value: 3, label: '≤ 3 missing' },
+];
+
+// Sorts and filters the results by how well they fit the scanned ingredients.
+const CoverageControls: React.FC<CoverageControlsProps> = ({ sort, onSortChange, maxMissing, onMaxMissingChange, shownCount, totalCount }) => {
+  return (
+    <div className="mb-6 px-2 sm:px-0 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Filter by missing ingredients">
+            {MISSING_FILTERS.map(option => (
+                <button
+                    key={option.label}
+                    onClick={() => onMaxMissingChange(option.value)}
+                    role="radio"
+                    aria-checked={maxMissing === option.value}
+                    className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-colors ${
+                        maxMissing === option.value
+                        ? 'bg-teal-500/20 border-teal-500/50 text-teal-200'
+                        : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                    }`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-400">
+            {shownCount < totalCount && <span>{shownCount} of {totalCount} ·</span>}
+            Sort
+            <select
+                value={sort}
+                onChange={e => onSortChange(e.target.value as CoverageSort)}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-gray-200 focus:outline-none focus:border-teal-500"
+            >
+                {COVERAGE_SORTS.map(option => (
+                    <option key={option} value={option}>{COVERAGE_SORT_LABELS[option]}</option>
+                ))}
+            </select>
+        </label>
+    </div>
+  );
+};
+
+export default CoverageControls;
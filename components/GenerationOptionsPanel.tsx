@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import type { Diet, GenerationOptions } from '../types';
+import { DIETS, DIET_LABELS } from '../utils/allergens';
+import {
+  COURSES,
+  COURSE_LABELS,
+  CUISINES,
+  DEFAULT_GENERATION_OPTIONS,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  EQUIPMENT,
+  MAX_RECIPE_COUNT,
+  MIN_RECIPE_COUNT,
+  summarizeGenerationOptions,
+} from '../utils/generationOptions';
+
+interface GenerationOptionsPanelProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  // Diets from the profile; always applied, so shown as locked on
+  profileDiets: Diet[];
+}
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-sm font-medium border transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${
+    active
+      ? 'bg-teal-500/20 border-teal-500/50 text-teal-200'
+      : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+  }`;
+
+const RECIPE_COUNTS = Array.from({ length: MAX_RECIPE_COUNT - MIN_RECIPE_COUNT + 1 }, (_, i) => MIN_RECIPE_COUNT + i);
+
+const Group: React.FC<{ title: string; hint?: string; children: React.ReactNode }> = ({ title, hint, children }) => (
+  <div>
+      <p className="text-xs text-gray-400 font-medium uppercase tracking-wider mb-2">
+          {title}
+          {hint && <span className="normal-case tracking-normal text-gray-500"> · {hint}</span>}
+      </p>
+      <div className="flex flex-wrap gap-2">{children}</div>
+  </div>
+);
+
+// Recipe count plus cuisine, diet, course, difficulty and equipment filters for the next search.
+// Collapsed it shows a one-line summary of what's chosen.
+const GenerationOptionsPanel: React.FC<GenerationOptionsPanelProps> = ({ options, onChange, profileDiets }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const summary = summarizeGenerationOptions({ ...options, maxPrepMinutes: null });
+  const update = (patch: Partial<GenerationOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="w-full bg-gray-800/60 rounded-2xl border border-gray-700/50">
+        <button
+            onClick={() => setIsOpen(open => !open)}
+            className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left"
+            aria-expanded={isOpen}
+        >
+            <span className="min-w-0">
+                <span className="block text-sm sm:text-base text-gray-400 font-medium uppercase tracking-wider">Filters</span>
+                <span className="block text-sm text-teal-300 truncate">
+                    {options.count} {options.count === 1 ? 'recipe' : 'recipes'} · {summary.length > 0 ? summary.join(' · ') : "Any cuisine, diet or course"}
+                </span>
+            </span>
+            <svg className={`w-5 h-5 text-teal-500 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+            </svg>
+        </button>
+
+        {isOpen && (
+            <div className="px-4 pb-4 space-y-4 animate-fade-in-down">
+                <Group title="How many recipes">
+                    {RECIPE_COUNTS.map(count => (
+                        <button
+                            key={count}
+                            onClick={() => update({ count })}
+                            className={`${chipClass(options.count === count)} min-w-[2.5rem]`}
+                            aria-pressed={options.count === count}
+                        >
+                            {count}
+                        </button>
+                    ))}
+                </Group>
+
+                <Group title="Cuisine" hint="pick any">
+                    {CUISINES.map(cuisine => (
+                        <button
+                            key={cuisine}
+                            onClick={() => update({ cuisines: toggle(options.cuisines, cuisine) })}
+                            className={chipClass(options.cuisines.includes(cuisine))}
+                            aria-pressed={options.cuisines.includes(cuisine)}
+                        >
+                            {cuisine}
+                        </button>
+                    ))}
+                </Group>
+
+                <Group title="Diet" hint={profileDiets.length > 0 ? "dimmed ones come from your profile" : undefined}>
+                    {DIETS.map(diet => {
+                        const locked = profileDiets.includes(diet);
+                        const active = locked || options.diets.includes(diet);
+                        return (
+                            <button
+                                key={diet}
+                                onClick={() => update({ diets: toggle(options.diets, diet) })}
+                                disabled={locked}
+                                className={chipClass(active)}
+                                aria-pressed={active}
+                            >
+                                {DIET_LABELS[diet]}
+                            </button>
+                        );
+                    })}
+                </Group>
+
+                <Group title="Course">
+                    {COURSES.map(course => (
+                        <button
+                            key={course}
+                            onClick={() => update({ course: options.course === course ? null : course })}
+                            className={chipClass(options.course === course)}
+                            aria-pressed={options.course === course}
+                        >
+                            {COURSE_LABELS[course]}
+                        </button>
+                    ))}
+                </Group>
+
+                <Group title="Difficulty">
+                    {DIFFICULTIES.map(difficulty => (
+                        <button
+                            key={difficulty}
+                            onClick={() => update({ difficulty: options.difficulty === difficulty ? null : difficulty })}
+                            className={chipClass(options.difficulty === difficulty)}
+                            aria-pressed={options.difficulty === difficulty}
+                        >
+                            {DIFFICULTY_LABELS[difficulty]}
+                        </button>
+                    ))}
+                </Group>
+
+                <Group title="Must use" hint="equipment">
+                    {EQUIPMENT.map(item => (
+                        <button
+                            key={item}
+                            onClick={() => update({ equipment: toggle(options.equipment, item) })}
+                            className={chipClass(options.equipment.includes(item))}
+                            aria-pressed={options.equipment.includes(item)}
+                        >
+                            {item}
+                        </button>
+                    ))}
+                </Group>
+
+                {summary.length > 0 && (
+                    <button
+                        onClick={() => onChange({ ...DEFAULT_GENERATION_OPTIONS, count: options.count, maxPrepMinutes: options.maxPrepMinutes })}
+                        className="text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        Clear filters
+                    </button>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default GenerationOptionsPanel;
@@ -0,0 +1,108 @@
+import React from 'react';
+import type { HistoryEntry } from '../types';
+import { summarizeGenerationOptions } from '../utils/generationOptions';
+
+interface HistoryViewProps {
+  entries: HistoryEntry[];
+  // Show the stored menu again
+  onOpen: (entry: HistoryEntry) => void;
+  // Send the stored ingredients back to review to generate with new settings
+  onRegenerate: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const HistoryView: React.FC<HistoryViewProps> = ({ entries, onOpen, onRegenerate, onDelete, onBack }) => {
+  return (
+    <div className="w-full pb-28">
+        <div className="text-center mb-6 pt-4">
+            <h2 className="text-3xl sm:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-300 to-cyan-500 mb-2">
+                History
+            </h2>
+            <p className="text-gray-400 text-sm sm:text-base">
+                Revisit past scans and the menus they produced.
+            </p>
+        </div>
+
+        <div className="space-y-4 px-2 sm:px-0">
+            {entries.map(entry => (
+                <div key={entry.id} className="bg-gray-800 rounded-2xl border border-gray-700 p-4 shadow-lg animate-fade-in-up">
+                    <div className="flex justify-between items-start gap-2 mb-3">
+                        <div>
+                            <p className="text-white font-semibold">{formatDate(entry.createdAt)}</p>
+                            <p className="text-xs text-gray-400">
+                                {entry.servings} serving{entry.servings > 1 ? 's' : ''}
+                                {summarizeGenerationOptions(entry.options).map(label => ` · ${label}`)}
+                                {` · ${entry.recipes.length} recipe${entry.recipes.length === 1 ? '' : 's'}`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => onDelete(entry.id)}
+                            className="text-gray-500 hover:text-red-400 p-1 transition-colors"
+                            title="Delete from history"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {entry.thumbnails.length > 0 && (
+                        <div className="flex gap-2 overflow-x-auto pb-2 mb-2 scrollbar-hide">
+                            {entry.thumbnails.map((thumb, idx) => (
+                                <img key={idx} src={thumb} alt={`Scan ${idx + 1}`} className="w-14 h-14 rounded-lg object-cover border border-gray-600 flex-shrink-0" />
+                            ))}
+                        </div>
+                    )}
+
+                    <p className="text-sm text-gray-300 mb-1 line-clamp-2">
+                        <span className="text-gray-500">Ingredients: </span>
+                        {entry.ingredients.map(i => i.name).join(', ')}
+                    </p>
+                    <p className="text-sm text-teal-300/90 mb-4 line-clamp-2">
+                        {entry.recipes.map(r => r.recipeName).join(' · ')}
+                    </p>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => onOpen(entry)}
+                            className="py-2.5 rounded-xl font-bold text-sm bg-teal-600 text-white hover:bg-teal-500 transition-colors"
+                        >
+                            View Menu
+                        </button>
+                        <button
+                            onClick={() => onRegenerate(entry)}
+                            className="py-2.5 rounded-xl font-bold text-sm bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+                        >
+                            Edit & Regenerate
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {entries.length === 0 && (
+                <div className="text-center py-8 text-gray-500 italic border-2 border-dashed border-gray-700 rounded-xl">
+                    No history yet.<br/>Completed scans will show up here.
+                </div>
+            )}
+        </div>
+
+        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center">
+            <button
+                onClick={onBack}
+                className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { describeDuration, findDurations } from '../utils/durations';
+import type { DurationRange } from '../utils/durations';
+
+interface InstructionTextProps {
+  text: string;
+  // Durations in the text ("5 minutes", "20-25 minutes") become buttons that start a timer
+  onStartTimer: (duration: DurationRange) => void;
+  // Bigger timer buttons, for cook mode
+  large?: boolean;
+}
+
+// An instruction step with its durations turned into timer buttons.
+const InstructionText: React.FC<InstructionTextProps> = ({ text, onStartTimer, large = false }) => {
+  const durations = findDurations(text);
+  if (durations.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const duration of durations) {
+    // Text before the duration
+    if (duration.index > lastIndex) {
+      parts.push(text.substring(lastIndex, duration.index));
+    }
+    parts.push(
+        <button
+            key={duration.index}
+            onClick={(e) => { e.stopPropagation(); onStartTimer(duration); }}
+            className={`inline-flex items-center gap-1 ${large ? 'px-2.5 py-1' : 'px-1.5 py-0.5'} mx-1 rounded-md bg-teal-500/20 text-teal-300 hover:bg-teal-500/30 hover:text-teal-200 font-medium transition-colors cursor-pointer border border-teal-500/30 align-baseline`}
+            title={duration.maxSeconds !== null
+                ? `Start timer for ${describeDuration(duration.maxSeconds)}, with a reminder to check at ${describeDuration(duration.seconds)}`
+                : `Start timer for ${duration.text}`}
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" className={large ? "h-6 w-6" : "h-3 w-3"} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {duration.text}
+        </button>
+    );
+    lastIndex = duration.index + duration.text.length;
+  }
+  // Remaining text
+  if (lastIndex < text.length) {
+    parts.push(text.substring(lastIndex));
+  }
+  return <>{parts}</>;
+};
+
+export default InstructionText;
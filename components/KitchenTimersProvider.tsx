@@ -0,0 +1,135 @@
+import React, { createContext, useContext, useEffect, useMemo, useReducer, useState } from 'react';
+import type { KitchenTimer } from '../types';
+import { CHECK_ALARM_BURSTS, notifyTimer, playAlarm, prepareTimerAlerts, registerAlertWorker } from '../services/alarm';
+import { loadKitchenTimers, saveKitchenTimers } from '../services/kitchenTimerStore';
+import { kitchenTimersReducer, nextTimerEvent } from '../utils/kitchenTimers';
+import type { NewKitchenTimer } from '../utils/kitchenTimers';
+import TimerOverlay from './TimerOverlay';
+
+interface KitchenTimersContextValue {
+  timers: KitchenTimer[];
+  startTimer: (timer: NewKitchenTimer) => void;
+  pauseTimer: (id: string) => void;
+  resumeTimer: (id: string) => void;
+  restartTimer: (id: string) => void;
+  dismissTimer: (id: string) => void;
+}
+
+const KitchenTimersContext = createContext<KitchenTimersContextValue | null>(null);
+
+/** The app's kitchen timers; must be used under a KitchenTimersProvider. */
+export const useKitchenTimers = (): KitchenTimersContextValue => {
+  const value = useContext(KitchenTimersContext);
+  if (!value) throw new Error("useKitchenTimers must be used inside a KitchenTimersProvider.");
+  return value;
+};
+
+// Owns every running timer, so they keep going when the card or cook mode that
+// started them closes, and shows them stacked in one overlay. Timers are saved
+// with their end times, so they carry on across reloads and don't drift when a
+// background tab is throttled; the clock only re-renders while it's on screen.
+// Alarms are raised by this page, so one that falls due while the browser has
+// frozen or closed it is only raised when it comes back (see services/alarm.ts).
+const KitchenTimersProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [timers, dispatch] = useReducer(kitchenTimersReducer, undefined, loadKitchenTimers);
+  const [now, setNow] = useState(() => Date.now());
+  const [isVisible, setIsVisible] = useState(() => document.visibilityState === 'visible');
+  // Alarms already raised (a timer's id, or id:check for its check reminder), so
+  // each rings once; ones raised before a reload stay quiet
+  const [alerted] = useState(() => new Set([
+    ...timers.filter(t => t.status === 'done').map(t => t.id),
+    ...timers.filter(t => t.checkDue).map(t => `${t.id}:check`),
+  ]));
+  const isAnyRunning = timers.some(t => t.status === 'running');
+  const nextEvent = nextTimerEvent(timers);
+
+  useEffect(registerAlertWorker, []);
+
+  useEffect(() => {
+    saveKitchenTimers(timers);
+  }, [timers]);
+
+  // Wakes up when the soonest timer or check reminder is due. `now` is a
+  // dependency so a timeout that fires a little early is simply scheduled again.
+  useEffect(() => {
+    if (nextEvent === null) return;
+    const timeout = window.setTimeout(() => {
+      const at = Date.now();
+      dispatch({ type: 'expire', now: at });
+      setNow(at);
+    }, Math.max(0, nextEvent - Date.now()));
+    return () => window.clearTimeout(timeout);
+  }, [nextEvent, now]);
+
+  // Catches up at once when the page comes back
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const at = Date.now();
+      setIsVisible(document.visibilityState === 'visible');
+      setNow(at);
+      dispatch({ type: 'expire', now: at });
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Redraws the countdowns; the time shown is always worked out from the end time
+  useEffect(() => {
+    if (!isAnyRunning || !isVisible) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isAnyRunning, isVisible]);
+
+  useEffect(() => {
+    for (const timer of timers) {
+      if (timer.status !== 'done') alerted.delete(timer.id);
+      if (!timer.checkDue) alerted.delete(`${timer.id}:check`);
+    }
+    const finished = timers.filter(t => t.status === 'done' && !alerted.has(t.id));
+    const toCheck = timers.filter(t => t.status === 'running' && t.checkDue && !alerted.has(`${t.id}:check`));
+    if (finished.length === 0 && toCheck.length === 0) return;
+    finished.forEach(t => alerted.add(t.id));
+    toCheck.forEach(t => alerted.add(`${t.id}:check`));
+    if (finished.length > 0) playAlarm();
+    else playAlarm(CHECK_ALARM_BURSTS);
+    // The overlay says so on screen; a notification is for when it isn't
+    if (document.visibilityState !== 'visible') {
+      finished.forEach(t => void notifyTimer(t, 'done'));
+      toCheck.forEach(t => void notifyTimer(t, 'check'));
+    }
+  }, [timers, alerted]);
+
+  const value = useMemo<KitchenTimersContextValue>(() => ({
+    timers,
+    startTimer: timer => {
+      prepareTimerAlerts();
+      dispatch({ type: 'start', timer, now: Date.now() });
+    },
+    pauseTimer: id => dispatch({ type: 'pause', id, now: Date.now() }),
+    resumeTimer: id => {
+      prepareTimerAlerts();
+      dispatch({ type: 'resume', id, now: Date.now() });
+    },
+    restartTimer: id => {
+      prepareTimerAlerts();
+      dispatch({ type: 'restart', id, now: Date.now() });
+    },
+    dismissTimer: id => dispatch({ type: 'dismiss', id }),
+  }), [timers]);
+
+  return (
+    <KitchenTimersContext.Provider value={value}>
+        {children}
+        <TimerOverlay
+            timers={timers}
+            now={now}
+            onPause={value.pauseTimer}
+            onResume={value.resumeTimer}
+            onRestart={value.restartTimer}
+            onDismiss={value.dismissTimer}
+        />
+    </KitchenTimersContext.Provider>
+  );
+};
+
+export default KitchenTimersProvider;
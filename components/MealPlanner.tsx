@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import type { DietaryProfile, MealPlan, MealType, NutritionTargets, PlannedMeal, Recipe, SavedRecipe, UnitSystem } from '../types';
+import {
+  DAYS_PER_WEEK,
+  MEAL_TYPES,
+  dailyNutrition,
+  dayDate,
+  emptySlots,
+  getPlannedMeal,
+  slotKey,
+  weekStartOf,
+} from '../services/mealPlan';
+import type { MealSlot } from '../services/mealPlan';
+import { formatNutrient, percentOfTarget } from '../utils/nutrition';
+import RecipeCard from './RecipeCard';
+import Spinner from './Spinner';
+
+interface MealPlannerProps {
+  plan: MealPlan;
+  savedRecipes: SavedRecipe[];
+  // Recipes from the current search, offered alongside the recipe box
+  currentRecipes: Recipe[];
+  currentServings: number;
+  unitSystem: UnitSystem;
+  nutritionTargets: NutritionTargets;
+  dietaryProfile: DietaryProfile;
+  isFilling: boolean;
+  fillError: string | null;
+  onAssign: (slot: MealSlot, planned: PlannedMeal | null) => void;
+  onChangeWeek: (weeks: number) => void;
+  onChangeServings: (servings: number) => void;
+  // Ask the AI for recipes for every empty slot
+  onFill: () => void;
+  onCancelFill: () => void;
+  onOpenShoppingList: () => void;
+  onBack: () => void;
+}
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+};
+
+interface PickerOption {
+  key: string;
+  recipe: Recipe;
+  servings: number;
+  savedRecipeId?: string;
+  source: string;
+}
+
+const MealPlanner: React.FC<MealPlannerProps> = ({
+  plan, savedRecipes, currentRecipes, currentServings, unitSystem, nutritionTargets, dietaryProfile, isFilling, fillError,
+  onAssign, onChangeWeek, onChangeServings, onFill, onCancelFill, onOpenShoppingList, onBack,
+}) => {
+  const [pickerSlot, setPickerSlot] = useState<MealSlot | null>(null);
+  const [pickerQuery, setPickerQuery] = useState("");
+  const [openSlot, setOpenSlot] = useState<string | null>(null);
+
+  const emptyCount = useMemo(() => emptySlots(plan).length, [plan]);
+  const plannedCount = DAYS_PER_WEEK * MEAL_TYPES.length - emptyCount;
+  const isThisWeek = plan.weekStart === weekStartOf();
+
+  const pickerOptions = useMemo<PickerOption[]>(() => {
+    const options: PickerOption[] = [
+      ...currentRecipes.map((recipe, idx) => ({ key: `current-${idx}`, recipe, servings: currentServings, source: 'This search' })),
+      ...savedRecipes.map(saved => ({ key: saved.id, recipe: saved.recipe, servings: saved.servings, savedRecipeId: saved.id, source: 'Recipe Box' })),
+    ];
+    const query = pickerQuery.trim().toLowerCase();
+    return query ? options.filter(o => o.recipe.recipeName.toLowerCase().includes(query)) : options;
+  }, [currentRecipes, currentServings, savedRecipes, pickerQuery]);
+
+  const closePicker = () => {
+    setPickerSlot(null);
+    setPickerQuery("");
+  };
+
+  const pick = (option: PickerOption) => {
+    if (!pickerSlot) return;
+    onAssign(pickerSlot, { recipe: option.recipe, servings: option.servings, savedRecipeId: option.savedRecipeId });
+    closePicker();
+  };
+
+  const formatWeek = () => {
+    const start = dayDate(plan.weekStart, 0);
+    const end = dayDate(plan.weekStart, DAYS_PER_WEEK - 1);
+    const format = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    return `${format(start)} – ${format(end)}`;
+  };
+
+  return (
+    <div className="w-full pb-28">
+        <div className="text-center mb-6 pt-4">
+            <h2 className="text-3xl sm:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-300 to-cyan-500 mb-2">
+                Meal Plan
+            </h2>
+            <div className="flex items-center justify-center gap-3 text-gray-300">
+                <button onClick={() => onChangeWeek(-1)} className="p-2 rounded-full hover:bg-gray-800 transition-colors" aria-label="Previous week">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                </button>
+                <div>
+                    <p className="font-semibold">{formatWeek()}</p>
+                    {isThisWeek && <p className="text-xs text-teal-400">This week</p>}
+                </div>
+                <button onClick={() => onChangeWeek(1)} className="p-2 rounded-full hover:bg-gray-800 transition-colors" aria-label="Next week">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                </button>
+            </div>
+        </div>
+
+        {/* Plan controls */}
+        <div className="px-2 sm:px-0 mb-6 space-y-3">
+            <div className="flex items-center justify-between gap-3 bg-gray-800 rounded-2xl border border-gray-700 p-3">
+                <span className="text-sm text-gray-400">Cooking for</span>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => onChangeServings(Math.max(1, plan.servings - 1))}
+                        className="w-8 h-8 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-bold"
+                        aria-label="Fewer people"
+                    >
+                        -
+                    </button>
+                    <span className="w-20 text-center text-teal-300 font-bold">
+                        {plan.servings} {plan.servings === 1 ? 'person' : 'people'}
+                    </span>
+                    <button
+                        onClick={() => onChangeServings(plan.servings + 1)}
+                        className="w-8 h-8 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-bold"
+                        aria-label="More people"
+                    >
+                        +
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {isFilling ? (
+                    <button
+                        onClick={onCancelFill}
+                        className="py-3 rounded-xl font-bold text-sm bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Spinner className="w-4 h-4" />
+                        Cancel
+                    </button>
+                ) : (
+                    <button
+                        onClick={onFill}
+                        disabled={emptyCount === 0}
+                        className="py-3 rounded-xl font-bold text-sm bg-teal-600 text-white hover:bg-teal-500 disabled:opacity-40 disabled:hover:bg-teal-600 transition-colors"
+                        title="Uses your scanned ingredients first"
+                    >
+                        Fill {emptyCount} empty slot{emptyCount === 1 ? '' : 's'}
+                    </button>
+                )}
+                <button
+                    onClick={onOpenShoppingList}
+                    disabled={plannedCount === 0}
+                    className="py-3 rounded-xl font-bold text-sm bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700 disabled:opacity-40 transition-colors"
+                >
+                    Shopping List
+                </button>
+            </div>
+
+            {fillError && (
+                <div className="p-3 bg-red-900/50 border border-red-700 rounded-xl text-red-200 text-center text-sm">
+                    {fillError}
+                </div>
+            )}
+        </div>
+
+        {/* Days */}
+        <div className="space-y-4 px-2 sm:px-0">
+            {Array.from({ length: DAYS_PER_WEEK }, (_, day) => {
+                const totals = dailyNutrition(plan, day);
+                const caloriePercent = totals && percentOfTarget(totals.calories, nutritionTargets.calories);
+                return (
+                    <div key={day} className="bg-gray-800 rounded-2xl border border-gray-700 p-4 shadow-lg">
+                        <div className="flex justify-between items-baseline gap-2 mb-3">
+                            <h3 className="text-white font-semibold">
+                                {dayDate(plan.weekStart, day).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                            </h3>
+                            {totals && (
+                                <p className="text-[11px] text-gray-400 text-right">
+                                    {formatNutrient(totals.calories)}{caloriePercent !== null && ` (${caloriePercent}%)`} · P {formatNutrient(totals.protein)} · C {formatNutrient(totals.carbs)} · F {formatNutrient(totals.fat)}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            {MEAL_TYPES.map(meal => {
+                                const slot = { day, meal };
+                                const key = slotKey(day, meal);
+                                const planned = getPlannedMeal(plan, slot);
+                                return (
+                                    <div key={meal}>
+                                        <div className="flex items-center gap-3">
+                                            <span className="w-20 flex-shrink-0 text-xs text-gray-500 uppercase tracking-wider">{MEAL_LABELS[meal]}</span>
+                                            {planned ? (
+                                                <>
+                                                    <button
+                                                        onClick={() => setOpenSlot(prev => (prev === key ? null : key))}
+                                                        className="flex-grow text-left text-sm text-teal-300 hover:text-teal-200 truncate"
+                                                    >
+                                                        {planned.recipe.recipeName}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => onAssign(slot, null)}
+                                                        className="text-gray-500 hover:text-red-400 p-1 transition-colors"
+                                                        title="Remove from plan"
+                                                    >
+                                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                                        </svg>
+                                                    </button>
+                                                </>
+                                            ) : (
+                                                <button
+                                                    onClick={() => setPickerSlot(slot)}
+                                                    className="flex-grow text-left text-sm text-gray-500 hover:text-gray-300 border border-dashed border-gray-700 rounded-lg px-3 py-1.5 transition-colors"
+                                                >
+                                                    + Add recipe
+                                                </button>
+                                            )}
+                                        </div>
+                                        {planned && openSlot === key && (
+                                            <div className="mt-3 animate-fade-in-down">
+                                                <RecipeCard recipe={planned.recipe} servings={planned.servings} unitSystem={unitSystem} nutritionTargets={nutritionTargets} dietaryProfile={dietaryProfile} />
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Recipe picker */}
+        {pickerSlot && (
+            <div className="fixed inset-0 z-[60] bg-black/70 flex items-end sm:items-center justify-center p-4" onClick={closePicker}>
+                <div
+                    className="w-full max-w-md max-h-[80vh] flex flex-col bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl animate-fade-in-up"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <div className="p-4 border-b border-gray-700">
+                        <h3 className="text-white font-semibold mb-3">
+                            {MEAL_LABELS[pickerSlot.meal]}, {dayDate(plan.weekStart, pickerSlot.day).toLocaleDateString(undefined, { weekday: 'long' })}
+                        </h3>
+                        <input
+                            type="text"
+                            value={pickerQuery}
+                            onChange={(e) => setPickerQuery(e.target.value)}
+                            placeholder="Search recipes"
+                            className="w-full bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-teal-500"
+                            autoFocus
+                        />
+                    </div>
+                    <ul className="overflow-y-auto p-2">
+                        {pickerOptions.map(option => (
+                            <li key={option.key}>
+                                <button
+                                    onClick={() => pick(option)}
+                                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+                                >
+                                    <span className="block text-sm text-white">{option.recipe.recipeName}</span>
+                                    <span className="block text-xs text-gray-500">{option.source} · {option.recipe.prepTime}</span>
+                                </button>
+                            </li>
+                        ))}
+                        {pickerOptions.length === 0 && (
+                            <li className="px-3 py-6 text-center text-sm text-gray-500 italic">
+                                No recipes to choose from. Save some to your Recipe Box or fill empty slots with AI.
+                            </li>
+                        )}
+                    </ul>
+                </div>
+            </div>
+        )}
+
+        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center">
+            <button
+                onClick={onBack}
+                className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default MealPlanner;
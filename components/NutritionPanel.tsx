@@ -0,0 +1,135 @@
+import React from 'react';
+import type { NutrientKey, NutritionalInfo, NutritionTargets } from '../types';
+import {
+  CORE_NUTRIENTS,
+  EXTRA_NUTRIENTS,
+  formatNutrient,
+  macroBreakdown,
+  percentOfTarget,
+  scaleNutrition,
+} from '../utils/nutrition';
+import type { MacroBreakdown } from '../utils/nutrition';
+
+interface NutritionPanelProps {
+  // Per serving
+  info: NutritionalInfo;
+  targets: NutritionTargets;
+  // Servings currently shown on the card, for the whole-batch line
+  servings: number;
+}
+
+const SHORT_LABELS: Record<NutrientKey, string> = {
+  calories: 'Cals',
+  protein: 'Prot',
+  carbs: 'Carbs',
+  fat: 'Fat',
+  fiber: 'Fiber',
+  sugar: 'Sugar',
+  sodium: 'Sodium',
+};
+
+const MACRO_COLORS = {
+  protein: '#2dd4bf',
+  carbs: '#60a5fa',
+  fat: '#fbbf24',
+};
+
+const RADIUS = 15.9155; // circumference of 100, so dash lengths are percentages
+
+// Donut of where the calories come from.
+const MacroChart: React.FC<{ breakdown: MacroBreakdown }> = ({ breakdown }) => {
+  let offset = 25; // start at 12 o'clock
+  const segments = (['protein', 'carbs', 'fat'] as const).map(macro => {
+    const length = breakdown[macro] * 100;
+    const segment = { macro, length, offset };
+    offset -= length;
+    return segment;
+  });
+
+  return (
+    <div className="flex items-center gap-4">
+        <svg viewBox="0 0 42 42" className="w-16 h-16 flex-shrink-0" role="img" aria-label="Calories by macronutrient">
+            <circle cx="21" cy="21" r={RADIUS} fill="transparent" stroke="#374151" strokeWidth="6" />
+            {segments.map(({ macro, length, offset }) => (
+                <circle
+                    key={macro}
+                    cx="21" cy="21" r={RADIUS}
+                    fill="transparent"
+                    stroke={MACRO_COLORS[macro]}
+                    strokeWidth="6"
+                    strokeDasharray={`${length} ${100 - length}`}
+                    strokeDashoffset={offset}
+                />
+            ))}
+        </svg>
+        <ul className="text-xs text-gray-300 space-y-1">
+            {segments.map(({ macro, length }) => (
+                <li key={macro} className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: MACRO_COLORS[macro] }}></span>
+                    <span className="capitalize w-12">{macro}</span>
+                    <span className="text-gray-400">{Math.round(length)}%</span>
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+};
+
+const NutritionPanel: React.FC<NutritionPanelProps> = ({ info, targets, servings }) => {
+  const breakdown = macroBreakdown(info);
+  const extras = EXTRA_NUTRIENTS.filter(key => info[key]);
+  const batch = scaleNutrition(info, servings);
+
+  return (
+    <div className="mb-6 bg-gray-750 rounded-xl">
+        <div className="grid grid-cols-4 gap-2 sm:gap-4 text-center">
+            {CORE_NUTRIENTS.map(key => {
+                const percent = percentOfTarget(info[key], targets[key]);
+                return (
+                    <div key={key} className="bg-gray-700/30 p-2 sm:p-3 rounded-lg border border-gray-700/50">
+                        <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider">{SHORT_LABELS[key]}</p>
+                        <p className="text-sm sm:text-base font-bold text-white truncate">{formatNutrient(info[key])}</p>
+                        {percent !== null && (
+                            <>
+                                <div className="mt-1.5 h-1 rounded-full bg-gray-700 overflow-hidden">
+                                    <div className={`h-full ${percent > 100 ? 'bg-amber-400' : 'bg-teal-400'}`} style={{ width: `${Math.min(percent, 100)}%` }}></div>
+                                </div>
+                                <p className="text-[10px] text-gray-400 mt-1">{percent}% daily</p>
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+
+        {(breakdown || extras.length > 0) && (
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-3 bg-gray-700/20 rounded-lg border border-gray-700/50 p-3">
+                {breakdown && <MacroChart breakdown={breakdown} />}
+                {extras.length > 0 && (
+                    <dl className="grid grid-cols-3 gap-3 text-center flex-grow">
+                        {extras.map(key => {
+                            const percent = percentOfTarget(info[key], targets[key]);
+                            return (
+                                <div key={key}>
+                                    <dt className="text-[10px] text-gray-400 uppercase tracking-wider">{SHORT_LABELS[key]}</dt>
+                                    <dd className="text-sm font-semibold text-white">{formatNutrient(info[key])}</dd>
+                                    {percent !== null && <dd className="text-[10px] text-gray-400">{percent}% daily</dd>}
+                                </div>
+                            );
+                        })}
+                    </dl>
+                )}
+            </div>
+        )}
+
+        <p className="text-[10px] text-gray-500 text-center mt-2 italic">*Estimated values per serving; % of your daily targets</p>
+        {servings > 1 && (
+            <p className="text-[10px] text-gray-500 text-center mt-0.5 italic">
+                Whole batch ({servings} servings): {formatNutrient(batch.calories)} · {formatNutrient(batch.protein)} protein · {formatNutrient(batch.carbs)} carbs · {formatNutrient(batch.fat)} fat
+            </p>
+        )}
+    </div>
+  );
+};
+
+export default NutritionPanel;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import type { PantryItem } from '../types';
+import { daysUntil, formatExpiry, fromDateInputValue, isExpiringSoon, toDateInputValue } from '../utils/shelfLife';
+
+interface PantryManagerProps {
+  items: PantryItem[];
+  // Free text such as "2 eggs", merged into the pantry like a scan
+  onAdd: (text: string) => void;
+  onUpdate: (item: PantryItem, changes: { quantity?: string; expiresAt?: number | null }) => void;
+  onRemove: (id: string) => void;
+  // Review the whole pantry and generate recipes from it
+  onCook: () => void;
+  onBack: () => void;
+}
+
+const PantryRow: React.FC<{ item: PantryItem } & Pick<PantryManagerProps, 'onUpdate' | 'onRemove'>> = ({ item, onUpdate, onRemove }) => {
+  const [quantity, setQuantity] = useState(item.quantity);
+  const expiring = isExpiringSoon(item.expiresAt);
+  const expired = item.expiresAt !== null && daysUntil(item.expiresAt) < 0;
+
+  const commitQuantity = () => {
+    if (quantity.trim() !== item.quantity) onUpdate(item, { quantity });
+  };
+
+  return (
+    <li className={`bg-gray-800/80 border rounded-xl p-3 shadow-sm ${
+        expired ? 'border-red-700/60' : expiring ? 'border-amber-600/50' : 'border-gray-700/50'
+    }`}>
+        <div className="flex items-center justify-between gap-2">
+            <span className="text-white font-medium">{item.name}</span>
+            <button
+                onClick={() => onRemove(item.id)}
+                className="px-2 py-0.5 rounded-md text-xs font-medium border border-gray-600 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+            >
+                Used up
+            </button>
+        </div>
+        <div className="mt-2 grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-500">
+                Quantity
+                <input
+                    type="text"
+                    value={quantity}
+                    onChange={e => setQuantity(e.target.value)}
+                    onBlur={commitQuantity}
+                    onKeyDown={e => e.key === 'Enter' && commitQuantity()}
+                    placeholder="e.g. 500 g"
+                    className="mt-1 w-full bg-gray-900/60 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-teal-500"
+                />
+            </label>
+            <label className="text-xs text-gray-500">
+                <span className={expired ? 'text-red-300' : expiring ? 'text-amber-300' : ''}>{formatExpiry(item.expiresAt)}</span>
+                <input
+                    type="date"
+                    value={toDateInputValue(item.expiresAt)}
+                    onChange={e => onUpdate(item, { expiresAt: fromDateInputValue(e.target.value) })}
+                    className="mt-1 w-full bg-gray-900/60 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-teal-500"
+                />
+            </label>
+        </div>
+    </li>
+  );
+};
+
+// Everything kept between scans, with estimated expiry dates that can be corrected per item.
+const PantryManager: React.FC<PantryManagerProps> = ({ items, onAdd, onUpdate, onRemove, onCook, onBack }) => {
+  const [input, setInput] = useState("");
+  // Soonest to expire first; items that keep go last
+  const sorted = [...items].sort((a, b) => (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity));
+
+  const add = () => {
+    if (!input.trim()) return;
+    onAdd(input.trim());
+    setInput("");
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto pb-28">
+        <div className="text-center mb-6 pt-4">
+            <h2 className="text-3xl sm:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-300 to-cyan-500 mb-2">
+                Pantry
+            </h2>
+            <p className="text-gray-400 text-sm sm:text-base">
+                What you have at home. Scans can be added here, and expiry dates are estimates you can change.
+            </p>
+        </div>
+
+        <div className="flex gap-2 mb-4 px-2 sm:px-0">
+            <input
+                type="text"
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && add()}
+                placeholder="Add item (e.g. '2 eggs')"
+                className="flex-grow bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all"
+            />
+            <button
+                onClick={add}
+                disabled={!input.trim()}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-teal-400 rounded-xl px-4 transition-colors"
+                aria-label="Add to pantry"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+            </button>
+        </div>
+
+        <ul className="space-y-3 px-2 sm:px-0">
+            {sorted.map(item => (
+                // Keyed on updatedAt too, so the quantity field resets after a merge
+                <PantryRow key={`${item.id}:${item.updatedAt}`} item={item} onUpdate={onUpdate} onRemove={onRemove} />
+            ))}
+        </ul>
+
+        {items.length === 0 && (
+            <div className="text-center py-8 text-gray-500 italic border-2 border-dashed border-gray-700 rounded-xl">
+                Your pantry is empty.<br/>Add items here or from the review screen after a scan.
+            </div>
+        )}
+
+        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center gap-3">
+            <button
+                onClick={onBack}
+                className="pointer-events-auto bg-gray-700 hover:bg-gray-600 active:scale-95 text-white font-bold py-3 px-6 rounded-full shadow-lg transition-all duration-300 flex items-center gap-2"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back
+            </button>
+            {items.length > 0 && (
+                <button
+                    onClick={onCook}
+                    className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-6 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300"
+                >
+                    Cook from pantry
+                </button>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default PantryManager;
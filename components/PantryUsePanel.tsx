@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { PantryUse } from '../services/pantry';
+import { formatQuantity } from '../utils/ingredients';
+
+interface PantryUsePanelProps {
+  // Pantry items the recipe uses, with the ones it finishes already ticked
+  uses: PantryUse[];
+  onConfirm: (uses: PantryUse[]) => void;
+  onClose: () => void;
+}
+
+const describeLeft = (use: PantryUse): string => {
+  if (use.remaining === null || use.remaining <= 0) return use.item.quantity ? `had ${use.item.quantity}` : '';
+  return `${formatQuantity({ amount: use.remaining, unit: use.item.unit ?? null })} left`;
+};
+
+// After cooking: tick what's finished; the rest is reduced by what the recipe used.
+const PantryUsePanel: React.FC<PantryUsePanelProps> = ({ uses, onConfirm, onClose }) => {
+  const [usedUp, setUsedUp] = useState(() => new Set(uses.filter(use => use.usedUp).map(use => use.item.id)));
+
+  const toggle = (id: string) => {
+    setUsedUp(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-2 p-3 rounded-xl bg-gray-900/60 border border-gray-700 space-y-2 animate-fade-in-down">
+        <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-white">Update your pantry</p>
+            <button onClick={onClose} className="w-6 h-6 rounded-full text-gray-400 hover:text-white hover:bg-gray-700" aria-label="Close">
+                ×
+            </button>
+        </div>
+        {uses.length === 0 ? (
+            <p className="text-xs text-gray-500">This recipe doesn't use anything from your pantry.</p>
+        ) : (
+            <>
+                <p className="text-xs text-gray-500">Ticked items are removed; the others keep what's left.</p>
+                <ul className="space-y-1">
+                    {uses.map(use => (
+                        <li key={use.item.id}>
+                            <label className="flex items-center gap-2 text-sm text-gray-200">
+                                <input
+                                    type="checkbox"
+                                    checked={usedUp.has(use.item.id)}
+                                    onChange={() => toggle(use.item.id)}
+                                    className="accent-teal-500"
+                                />
+                                <span className="flex-grow">{use.item.name}</span>
+                                <span className="text-xs text-gray-500">{describeLeft(use)}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+                <button
+                    onClick={() => onConfirm(uses.map(use => ({ ...use, usedUp: usedUp.has(use.item.id) })))}
+                    className="w-full px-4 py-2 rounded-lg bg-teal-600 text-white text-sm font-medium hover:bg-teal-500 transition-colors"
+                >
+                    Update pantry
+                </button>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default PantryUsePanel;
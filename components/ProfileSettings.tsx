@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import type { DietaryProfile, NutrientKey, NutritionTargets } from '../types';
+import { ALLERGENS, ALLERGEN_LABELS, DIETS, DIET_LABELS } from '../utils/allergens';
+import { ALL_NUTRIENTS, DEFAULT_NUTRITION_TARGETS, NUTRIENT_LABELS, NUTRIENT_UNITS } from '../utils/nutrition';
+
+interface ProfileSettingsProps {
+  nutritionTargets: NutritionTargets;
+  onChangeTargets: (targets: NutritionTargets) => void;
+  dietaryProfile: DietaryProfile;
+  onChangeProfile: (profile: DietaryProfile) => void;
+  onBack: () => void;
+}
+
+const toDrafts = (targets: NutritionTargets) =>
+  Object.fromEntries(ALL_NUTRIENTS.map(key => [key, String(targets[key])])) as Record<NutrientKey, string>;
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const chipClass = (active: boolean, tone: 'red' | 'teal') =>
+  `px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+    active
+      ? tone === 'red' ? 'bg-red-500/20 border-red-500/50 text-red-200' : 'bg-teal-500/20 border-teal-500/50 text-teal-200'
+      : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'
+  }`;
+
+const ProfileSettings: React.FC<ProfileSettingsProps> = ({ nutritionTargets, onChangeTargets, dietaryProfile, onChangeProfile, onBack }) => {
+  // Inputs are kept as text so a half-typed value isn't snapped back while editing
+  const [drafts, setDrafts] = useState(() => toDrafts(nutritionTargets));
+  const [avoidInput, setAvoidInput] = useState("");
+
+  const addAvoid = () => {
+    const item = avoidInput.trim();
+    if (!item) return;
+    if (!dietaryProfile.avoid.some(a => a.toLowerCase() === item.toLowerCase())) {
+      onChangeProfile({ ...dietaryProfile, avoid: [...dietaryProfile.avoid, item] });
+    }
+    setAvoidInput("");
+  };
+
+  const handleChange = (key: NutrientKey, text: string) => {
+    setDrafts(prev => ({ ...prev, [key]: text }));
+    const value = Number(text);
+    if (text.trim() && Number.isFinite(value) && value > 0) {
+      onChangeTargets({ ...nutritionTargets, [key]: value });
+    }
+  };
+
+  const handleReset = () => {
+    setDrafts(toDrafts(DEFAULT_NUTRITION_TARGETS));
+    onChangeTargets({ ...DEFAULT_NUTRITION_TARGETS });
+  };
+
+  return (
+    <div className="w-full pb-28">
+        <div className="text-center mb-6 pt-4">
+            <h2 className="text-3xl sm:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-300 to-cyan-500 mb-2">
+                Your Profile
+            </h2>
+            <p className="text-gray-400 text-sm sm:text-base">Settings that shape every recipe you see.</p>
+        </div>
+
+        <div className="space-y-5 px-2 sm:px-0">
+            <div className="bg-gray-800 rounded-2xl border border-gray-700 p-4 shadow-lg">
+                <h3 className="text-sm font-semibold text-teal-300 uppercase tracking-wider mb-1">Allergies</h3>
+                <p className="text-xs text-gray-500 mb-3">Recipes containing these are never shown.</p>
+                <div className="flex flex-wrap gap-2">
+                    {ALLERGENS.map(allergen => {
+                        const active = dietaryProfile.allergens.includes(allergen);
+                        return (
+                            <button
+                                key={allergen}
+                                onClick={() => onChangeProfile({ ...dietaryProfile, allergens: toggle(dietaryProfile.allergens, allergen) })}
+                                className={chipClass(active, 'red')}
+                                aria-pressed={active}
+                            >
+                                {ALLERGEN_LABELS[allergen]}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <h3 className="text-sm font-semibold text-teal-300 uppercase tracking-wider mt-5 mb-1">Diet</h3>
+                <p className="text-xs text-gray-500 mb-3">Every recipe is asked to follow these; ones that look off are flagged.</p>
+                <div className="flex flex-wrap gap-2">
+                    {DIETS.map(diet => {
+                        const active = dietaryProfile.diets.includes(diet);
+                        return (
+                            <button
+                                key={diet}
+                                onClick={() => onChangeProfile({ ...dietaryProfile, diets: toggle(dietaryProfile.diets, diet) })}
+                                className={chipClass(active, 'teal')}
+                                aria-pressed={active}
+                            >
+                                {DIET_LABELS[diet]}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <h3 className="text-sm font-semibold text-teal-300 uppercase tracking-wider mt-5 mb-1">Never use</h3>
+                <p className="text-xs text-gray-500 mb-3">Anything else to keep out, like cilantro or mushrooms.</p>
+                <form
+                    onSubmit={e => {
+                        e.preventDefault();
+                        addAvoid();
+                    }}
+                    className="flex gap-2 mb-3"
+                >
+                    <input
+                        type="text"
+                        value={avoidInput}
+                        onChange={e => setAvoidInput(e.target.value)}
+                        placeholder="Add an ingredient"
+                        maxLength={60}
+                        className="flex-grow bg-gray-900 rounded-lg border border-gray-700 px-3 py-2 text-white text-sm focus:outline-none focus:border-teal-500"
+                    />
+                    <button type="submit" className="px-4 py-2 rounded-lg bg-gray-700 text-gray-200 text-sm font-medium hover:bg-gray-600 transition-colors">
+                        Add
+                    </button>
+                </form>
+                {dietaryProfile.avoid.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {dietaryProfile.avoid.map(item => (
+                            <span key={item} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-gray-900 border border-gray-700 text-sm text-gray-200">
+                                {item}
+                                <button
+                                    onClick={() => onChangeProfile({ ...dietaryProfile, avoid: dietaryProfile.avoid.filter(a => a !== item) })}
+                                    className="w-5 h-5 rounded-full text-gray-400 hover:text-white hover:bg-gray-700"
+                                    aria-label={`Remove ${item}`}
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-gray-800 rounded-2xl border border-gray-700 p-4 shadow-lg">
+                <div className="flex justify-between items-baseline gap-2 mb-1">
+                    <h3 className="text-sm font-semibold text-teal-300 uppercase tracking-wider">Daily nutrition targets</h3>
+                    <button onClick={handleReset} className="text-xs text-gray-400 hover:text-white transition-colors">
+                        Reset to defaults
+                    </button>
+                </div>
+                <p className="text-xs text-gray-500 mb-4">Recipes show each nutrient as a percentage of these. Defaults are standard daily values for a 2,000 kcal diet.</p>
+                <div className="grid grid-cols-2 gap-3">
+                    {ALL_NUTRIENTS.map(key => {
+                        const value = Number(drafts[key]);
+                        const isInvalid = !drafts[key].trim() || !Number.isFinite(value) || value <= 0;
+                        return (
+                            <label key={key} className="block">
+                                <span className="text-xs text-gray-400">{NUTRIENT_LABELS[key]}</span>
+                                <div className={`mt-1 flex items-center bg-gray-900 rounded-lg border ${isInvalid ? 'border-red-500/70' : 'border-gray-700'} focus-within:border-teal-500`}>
+                                    <input
+                                        type="number"
+                                        inputMode="decimal"
+                                        min={1}
+                                        value={drafts[key]}
+                                        onChange={e => handleChange(key, e.target.value)}
+                                        className="w-full bg-transparent px-3 py-2 text-white text-sm focus:outline-none"
+                                    />
+                                    <span className="pr-3 text-xs text-gray-500">{NUTRIENT_UNITS[key]}</span>
+                                </div>
+                            </label>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+
+        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center">
+            <button
+                onClick={onBack}
+                className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import type { DietaryProfile, NutritionTargets, SavedRecipe, UnitSystem } from '../types';
+import { collectTags, filterSavedRecipes, normalizeTag } from '../services/recipeBox';
+import { summarizeGenerationOptions } from '../utils/generationOptions';
+import RecipeCard from './RecipeCard';
+import UnitSystemToggle from './UnitSystemToggle';
+
+interface RecipeBoxProps {
+  savedRecipes: SavedRecipe[];
+  unitSystem: UnitSystem;
+  onUnitSystemChange: (system: UnitSystem) => void;
+  nutritionTargets: NutritionTargets;
+  dietaryProfile: DietaryProfile;
+  onUpdate: (saved: SavedRecipe) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}
+
+const RecipeBox: React.FC<RecipeBoxProps> = ({ savedRecipes, unitSystem, onUnitSystemChange, nutritionTargets, dietaryProfile, onUpdate, onDelete, onBack }) => {
+  const [query, setQuery] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState("");
+
+  const allTags = useMemo(() => collectTags(savedRecipes), [savedRecipes]);
+  const visible = useMemo(
+    () => filterSavedRecipes(savedRecipes, { query, tag: activeTag, favoritesOnly }),
+    [savedRecipes, query, activeTag, favoritesOnly]
+  );
+
+  const addTag = (saved: SavedRecipe) => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !saved.tags.includes(tag)) {
+      onUpdate({ ...saved, tags: [...saved.tags, tag] });
+    }
+    setTagInput("");
+  };
+
+  const removeTag = (saved: SavedRecipe, tag: string) => {
+    onUpdate({ ...saved, tags: saved.tags.filter(t => t !== tag) });
+    if (activeTag === tag && !savedRecipes.some(s => s.id !== saved.id && s.tags.includes(tag))) {
+      setActiveTag(null);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedId(prev => (prev === id ? null : id));
+    setTagInput("");
+  };
+
+  return (
+    <div className="w-full pb-28">
+        <div className="text-center mb-6 pt-4">
+            <h2 className="text-3xl sm:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-300 to-cyan-500 mb-2">
+                Recipe Box
+            </h2>
+            <p className="text-gray-400 text-sm sm:text-base">
+                {savedRecipes.length} saved recipe{savedRecipes.length === 1 ? '' : 's'}
+            </p>
+            <div className="mt-3">
+                <UnitSystemToggle value={unitSystem} onChange={onUnitSystemChange} />
+            </div>
+        </div>
+
+        {/* Search & Filters */}
+        <div className="px-2 sm:px-0 mb-6 space-y-3">
+            <div className="flex gap-2">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by name or ingredient"
+                    className="flex-grow bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all"
+                />
+                <button
+                    onClick={() => setFavoritesOnly(f => !f)}
+                    className={`rounded-xl px-4 border transition-colors ${favoritesOnly ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                    title="Favourites only"
+                    aria-pressed={favoritesOnly}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                    </svg>
+                </button>
+            </div>
+            {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {allTags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setActiveTag(prev => (prev === tag ? null : tag))}
+                            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${activeTag === tag ? 'bg-teal-500/30 border-teal-400 text-teal-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {/* Saved Recipes */}
+        <div className="space-y-4 px-2 sm:px-0">
+            {visible.map(saved => (
+                <div key={saved.id} className="space-y-3">
+                    <div className="flex items-center gap-3 bg-gray-800/80 border border-gray-700/50 rounded-xl p-3 shadow-sm">
+                        <button
+                            onClick={() => onUpdate({ ...saved, favorite: !saved.favorite })}
+                            className={`p-1 transition-colors ${saved.favorite ? 'text-yellow-400' : 'text-gray-600 hover:text-yellow-300'}`}
+                            title={saved.favorite ? "Remove from favourites" : "Add to favourites"}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                            </svg>
+                        </button>
+                        <button onClick={() => toggleExpanded(saved.id)} className="flex-grow text-left min-w-0">
+                            <span className="text-white font-medium block truncate">{saved.recipe.recipeName}</span>
+                            <span className="text-xs text-gray-400">
+                                {saved.servings} serving{saved.servings > 1 ? 's' : ''}
+                                {summarizeGenerationOptions(saved.options).map(label => ` · ${label}`)}
+                                {saved.tags.length > 0 && ` · ${saved.tags.map(t => `#${t}`).join(' ')}`}
+                            </span>
+                        </button>
+                        <button
+                            onClick={() => onDelete(saved.id)}
+                            className="text-gray-500 hover:text-red-400 p-2 transition-colors"
+                            title="Delete recipe"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    {expandedId === saved.id && (
+                        <div className="space-y-3 animate-fade-in-down">
+                            {/* Tag Editor */}
+                            <div className="flex flex-wrap items-center gap-2 px-1">
+                                {saved.tags.map(tag => (
+                                    <span key={tag} className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-gray-700 text-gray-300">
+                                        #{tag}
+                                        <button onClick={() => removeTag(saved, tag)} className="text-gray-500 hover:text-red-400" aria-label={`Remove tag ${tag}`}>
+                                            ×
+                                        </button>
+                                    </span>
+                                ))}
+                                <input
+                                    type="text"
+                                    value={tagInput}
+                                    onChange={(e) => setTagInput(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && addTag(saved)}
+                                    placeholder="Add tag"
+                                    className="bg-gray-800 border border-gray-700 rounded-full px-3 py-1 text-xs text-white w-28 focus:outline-none focus:border-teal-500"
+                                />
+                            </div>
+                            <RecipeCard recipe={saved.recipe} servings={saved.servings} unitSystem={unitSystem} nutritionTargets={nutritionTargets} dietaryProfile={dietaryProfile} />
+                            <p className="text-xs text-gray-500 px-1">
+                                Made from: {saved.sourceIngredients.map(i => i.name).join(', ') || 'manual list'}
+                            </p>
+                        </div>
+                    )}
+                </div>
+            ))}
+
+            {visible.length === 0 && (
+                <div className="text-center py-8 text-gray-500 italic border-2 border-dashed border-gray-700 rounded-xl">
+                    {savedRecipes.length === 0
+                        ? <>No saved recipes yet.<br/>Tap the bookmark on any recipe to keep it.</>
+                        : "No recipes match your search."}
+                </div>
+            )}
+        </div>
+
+        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center">
+            <button
+                onClick={onBack}
+                className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default RecipeBox;
@@ -1,79 +1,115 @@
-import React, { useState } from 'react';
-import type { Recipe } from '../types';
-import TimerOverlay from './TimerOverlay';
+import React, { useMemo, useState } from 'react';
+import type { DietaryProfile, Ingredient, NutritionTargets, PantryItem, Recipe, RecipeRevisions, Substitute, SubstituteSuggestions, UnitSystem } from '../types';
+import { pantryUsesFor } from '../services/pantry';
+import type { PantryUse } from '../services/pantry';
+import { EMPTY_PROFILE, findDietaryConflicts } from '../utils/allergens';
+import type { DurationRange } from '../utils/durations';
+import { formatRecipeIngredient } from '../utils/ingredients';
+import { timerLabelFromStep, timerLengthFor } from '../utils/kitchenTimers';
+import { DEFAULT_NUTRITION_TARGETS } from '../utils/nutrition';
+import { describeCoverage, findMissingIngredients } from '../utils/pantryCoverage';
+import type { PantryCoverage } from '../utils/pantryCoverage';
+import { scaleRecipe } from '../utils/scaling';
+import { applySubstitution, filterSafeSubstitutes, localSubstitutes } from '../utils/substitutions';
+import { convertRecipe } from '../utils/units';
+import CookMode from './CookMode';
+import InstructionText from './InstructionText';
+import { useKitchenTimers } from './KitchenTimersProvider';
+import NutritionPanel from './NutritionPanel';
+import PantryUsePanel from './PantryUsePanel';
+import RecipeRefinePanel from './RecipeRefinePanel';
+import SubstitutePicker from './SubstitutePicker';
 
 interface RecipeCardProps {
   recipe: Recipe;
+  // Servings the recipe was generated for; the card can rescale from here
+  servings?: number;
+  // Converts ingredients and instruction text; 'original' leaves them as generated
+  unitSystem?: UnitSystem;
+  // Daily targets the nutrition panel shows percentages against
+  nutritionTargets?: NutritionTargets;
+  // Ingredients that break the profile are called out on the card
+  dietaryProfile?: DietaryProfile;
+  // When provided, a bookmark button saves/unsaves the recipe to the recipe box
+  isSaved?: boolean;
+  onToggleSave?: () => void;
+  // When provided, a cart button adds the recipe to the shopping list
+  isOnShoppingList?: boolean;
+  onToggleShoppingList?: () => void;
+  // When provided, a "More like this" link asks for variations of the recipe
+  onMoreLikeThis?: () => void;
+  // While another request is running (also blocks refining)
+  isRequestPending?: boolean;
+  // When provided, a chat asks the AI for changes; `revisions` holds the versions so far
+  onRefine?: (instruction: string) => void;
+  revisions?: RecipeRevisions;
+  onSelectRevision?: (index: number) => void;
+  isRefining?: boolean;
+  refineError?: string | null;
+  // What the user has; with onSubstitute, lines not covered are marked and can be swapped
+  availableIngredients?: Ingredient[];
+  onSubstitute?: (line: number, substitute: Substitute) => void;
+  // Asks the AI when the built-in table has nothing (or nothing good)
+  onAskSubstitutes?: (line: number) => void;
+  aiSubstitutes?: SubstituteSuggestions | null;
+  // How well the recipe fits the scanned ingredients, shown as a badge
+  coverage?: PantryCoverage | null;
+  // When provided, an "I cooked this" button offers to take what the recipe used out of the pantry
+  pantry?: PantryItem[];
+  onCooked?: (uses: PantryUse[]) => void;
 }
 
-const RecipeCard: React.FC<RecipeCardProps> = ({ recipe }) => {
+const RecipeCard: React.FC<RecipeCardProps> = ({ recipe: baseRecipe, servings: baseServings = 1, unitSystem = 'original', nutritionTargets = DEFAULT_NUTRITION_TARGETS, dietaryProfile = EMPTY_PROFILE, isSaved = false, onToggleSave, isOnShoppingList = false, onToggleShoppingList, onMoreLikeThis, isRequestPending = false, onRefine, revisions, onSelectRevision, isRefining = false, refineError = null, availableIngredients, onSubstitute, onAskSubstitutes, aiSubstitutes, coverage, pantry, onCooked }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [timerDuration, setTimerDuration] = useState<number | null>(null);
+  const [servings, setServings] = useState(baseServings);
+  const recipe = useMemo(
+    () => convertRecipe(scaleRecipe(baseRecipe, baseServings, servings), unitSystem),
+    [baseRecipe, baseServings, servings, unitSystem]
+  );
+  const conflicts = useMemo(() => findDietaryConflicts(baseRecipe, dietaryProfile), [baseRecipe, dietaryProfile]);
+  const hardConflicts = conflicts.filter(c => c.kind !== 'diet');
+  const dietConflicts = conflicts.filter(c => c.kind === 'diet');
+  // Ingredient names are untouched by scaling and conversion, so lines can be matched by item
+  // (hard conflicts go last so they win over a diet flag on the same line)
+  const conflictKinds = new Map([...dietConflicts, ...hardConflicts].map(c => [c.ingredient, c.kind]));
+  const missingLines = useMemo(
+    () => new Set(availableIngredients && onSubstitute ? findMissingIngredients(baseRecipe, availableIngredients) : []),
+    [baseRecipe, availableIngredients, onSubstitute]
+  );
+  const [swapLine, setSwapLine] = useState<number | null>(null);
+  // Only while that line is still missing (a new version of the recipe may have changed it)
+  const swapIngredient = swapLine !== null && missingLines.has(swapLine) ? baseRecipe.ingredients[swapLine] : null;
+  const swapAI = aiSubstitutes && aiSubstitutes.line === swapLine ? aiSubstitutes : null;
+  const { startTimer } = useKitchenTimers();
+  const [isCooking, setIsCooking] = useState(false);
+  // Worked out when the panel opens, for the servings shown at the time
+  const [pantryUses, setPantryUses] = useState<PantryUse[] | null>(null);
 
-  const openTimer = (seconds: number) => {
-    setTimerDuration(seconds);
-  };
+  // How a substitute's line would read, scaled and converted like the rest of the card
+  const toOption = (line: number) => (substitute: Substitute) => ({
+    substitute,
+    preview: formatRecipeIngredient(
+      convertRecipe(scaleRecipe(applySubstitution(baseRecipe, line, substitute), baseServings, servings), unitSystem).ingredients[line]
+    ),
+  });
 
-  const closeTimer = () => {
-    setTimerDuration(null);
+  const pickSubstitute = (line: number, substitute: Substitute) => {
+    setSwapLine(null);
+    onSubstitute?.(line, substitute);
   };
 
-  // Helper to parse text and insert interactive timer buttons
-  const renderInstructionText = (text: string) => {
-    // Regex to match patterns like "5 minutes", "1-2 hours", "30 secs"
-    // Captures: 1=number(range), 2=unit
-    const timeRegex = /\b(\d+(?:-\d+)?)\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b/gi;
-    const parts = [];
-    let lastIndex = 0;
-    let match;
-
-    while ((match = timeRegex.exec(text)) !== null) {
-      // Push text before the match
-      if (match.index > lastIndex) {
-        parts.push(text.substring(lastIndex, match.index));
-      }
-
-      const fullMatch = match[0];
-      const numberPart = match[1]; // e.g., "5" or "5-10"
-      const unitPart = match[2].toLowerCase();
-
-      // Calculate duration in seconds
-      let val = parseInt(numberPart.split('-')[0], 10); // Use lower bound of range
-      if (isNaN(val)) val = 0;
-
-      let multiplier = 60; // Default to minutes
-      if (unitPart.startsWith('sec')) multiplier = 1;
-      if (unitPart.startsWith('hour') || unitPart.startsWith('hr')) multiplier = 3600;
-
-      const seconds = val * multiplier;
-
-      if (seconds > 0) {
-        parts.push(
-            <button
-                key={match.index}
-                onClick={(e) => { e.stopPropagation(); openTimer(seconds); }}
-                className="inline-flex items-center gap-1 px-1.5 py-0.5 mx-1 rounded-md bg-teal-500/20 text-teal-300 hover:bg-teal-500/30 hover:text-teal-200 font-medium transition-colors cursor-pointer border border-teal-500/30 align-baseline"
-                title={`Start timer for ${fullMatch}`}
-            >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                {fullMatch}
-            </button>
-        );
-      } else {
-        parts.push(fullMatch);
-      }
-
-      lastIndex = timeRegex.lastIndex;
-    }
+  const toggleCooked = () => {
+    setPantryUses(uses => uses ? null : pantryUsesFor(pantry ?? [], scaleRecipe(baseRecipe, baseServings, servings)));
+  };
 
-    // Push remaining text
-    if (lastIndex < text.length) {
-      parts.push(text.substring(lastIndex));
-    }
+  const confirmCooked = (uses: PantryUse[]) => {
+    setPantryUses(null);
+    onCooked?.(uses);
+  };
 
-    return parts.length > 0 ? <>{parts}</> : text;
+  // Timers live app-wide, so they outlast this card and cook mode
+  const openTimer = (duration: DurationRange, step: number) => {
+    startTimer({ label: timerLabelFromStep(recipe.instructions[step] ?? ''), recipeName: recipe.recipeName, step, ...timerLengthFor(duration) });
   };
 
   return (
@@ -90,63 +126,185 @@ const RecipeCard: React.FC<RecipeCardProps> = ({ recipe }) => {
                         </svg>
                         <span>{recipe.prepTime}</span>
                     </div>
+                    {coverage && (
+                        <span className={`inline-block mt-2 px-2.5 py-1 rounded-full text-xs font-medium border ${
+                            coverage.onHandShare >= 0.8
+                            ? 'bg-teal-500/15 border-teal-500/40 text-teal-200'
+                            : coverage.onHandShare >= 0.5
+                                ? 'bg-amber-500/10 border-amber-500/40 text-amber-200'
+                                : 'bg-gray-700/40 border-gray-600 text-gray-300'
+                        }`}>
+                            {describeCoverage(coverage)}
+                        </span>
+                    )}
+                </div>
+                <div className="self-start flex items-center gap-2">
+                    {onToggleShoppingList && (
+                        <button
+                            onClick={onToggleShoppingList}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                                isOnShoppingList
+                                ? "bg-teal-500/20 border-teal-500/40 text-teal-300 hover:bg-teal-500/30"
+                                : "bg-gray-700/40 border-gray-600 text-gray-300 hover:text-white hover:bg-gray-700"
+                            }`}
+                            title={isOnShoppingList ? "Remove from shopping list" : "Add to shopping list"}
+                            aria-pressed={isOnShoppingList}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                            </svg>
+                            {isOnShoppingList ? "On list" : "List"}
+                        </button>
+                    )}
+                    {onToggleSave && (
+                        <button
+                            onClick={onToggleSave}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                                isSaved
+                                ? "bg-teal-500/20 border-teal-500/40 text-teal-300 hover:bg-teal-500/30"
+                                : "bg-gray-700/40 border-gray-600 text-gray-300 hover:text-white hover:bg-gray-700"
+                            }`}
+                            title={isSaved ? "Remove from Recipe Box" : "Save to Recipe Box"}
+                            aria-pressed={isSaved}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" stroke="currentColor" fill={isSaved ? "currentColor" : "none"}>
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                            </svg>
+                            {isSaved ? "Saved" : "Save"}
+                        </button>
+                    )}
                 </div>
             </div>
 
             <p className="text-sm sm:text-base text-gray-300 mb-6 leading-relaxed">{recipe.description}</p>
+
+            {/* Dietary warnings */}
+            {hardConflicts.length > 0 && (
+                <div className="mb-4 p-3 rounded-xl bg-red-900/40 border border-red-700/60 text-red-200 text-sm" role="alert">
+                    <p className="font-semibold">Not safe for your profile</p>
+                    <ul className="mt-1 text-xs text-red-200/90 space-y-0.5">
+                        {hardConflicts.map((c, idx) => (
+                            <li key={idx}>{c.kind === 'allergen' ? c.label : `Avoid: ${c.label}`} — {c.ingredient}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {dietConflicts.length > 0 && (
+                <div className="mb-4 p-3 rounded-xl bg-amber-900/30 border border-amber-700/50 text-amber-200 text-sm">
+                    <p className="font-semibold">May not fit your diet</p>
+                    <ul className="mt-1 text-xs text-amber-200/90 space-y-0.5">
+                        {dietConflicts.map((c, idx) => (
+                            <li key={idx}>{c.label} — {c.ingredient}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             
             {/* Nutritional Info */}
-            <div className="mb-6 bg-gray-750 rounded-xl">
-                <div className="grid grid-cols-4 gap-2 sm:gap-4 text-center">
-                    <div className="bg-gray-700/30 p-2 sm:p-3 rounded-lg border border-gray-700/50">
-                        <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider">Cals</p>
-                        <p className="text-sm sm:text-base font-bold text-white truncate">{recipe.nutritionalInfo.calories}</p>
-                    </div>
-                    <div className="bg-gray-700/30 p-2 sm:p-3 rounded-lg border border-gray-700/50">
-                        <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider">Prot</p>
-                        <p className="text-sm sm:text-base font-bold text-white truncate">{recipe.nutritionalInfo.protein}</p>
-                    </div>
-                    <div className="bg-gray-700/30 p-2 sm:p-3 rounded-lg border border-gray-700/50">
-                        <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider">Carbs</p>
-                        <p className="text-sm sm:text-base font-bold text-white truncate">{recipe.nutritionalInfo.carbs}</p>
-                    </div>
-                    <div className="bg-gray-700/30 p-2 sm:p-3 rounded-lg border border-gray-700/50">
-                        <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider">Fat</p>
-                        <p className="text-sm sm:text-base font-bold text-white truncate">{recipe.nutritionalInfo.fat}</p>
-                    </div>
-                </div>
-                <p className="text-[10px] text-gray-500 text-center mt-2 italic">*Estimated values per serving</p>
-            </div>
+            <NutritionPanel info={recipe.nutritionalInfo} targets={nutritionTargets} servings={servings} />
             
             {/* Ingredients (Always Visible) */}
             <div className="mb-6">
-                <h4 className="text-base sm:text-lg font-semibold text-white mb-3 flex items-center gap-2">
-                    <span className="w-2 h-2 rounded-full bg-teal-400"></span>
-                    Ingredients
-                </h4>
+                <div className="flex items-center justify-between gap-2 mb-3">
+                    <h4 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-teal-400"></span>
+                        Ingredients
+                    </h4>
+                    <div className="flex items-center gap-1 bg-gray-700/40 rounded-full border border-gray-600 p-0.5">
+                        <button
+                            onClick={() => setServings(s => Math.max(1, s - 1))}
+                            disabled={servings <= 1}
+                            className="w-7 h-7 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                            aria-label="Fewer servings"
+                        >
+                            −
+                        </button>
+                        <span className="text-xs sm:text-sm text-gray-200 font-medium min-w-[5.5rem] text-center" aria-live="polite">
+                            {servings} serving{servings > 1 ? 's' : ''}
+                        </span>
+                        <button
+                            onClick={() => setServings(s => s + 1)}
+                            className="w-7 h-7 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors"
+                            aria-label="More servings"
+                        >
+                            +
+                        </button>
+                    </div>
+                </div>
                 <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-gray-300 text-sm sm:text-base">
-                {recipe.ingredients.map((ingredient, index) => (
-                    <li key={index} className="flex items-center gap-2 bg-gray-700/20 p-2 rounded-lg">
-                        <span className="w-1.5 h-1.5 rounded-full bg-gray-500 flex-shrink-0"></span>
-                        <span>{ingredient}</span>
-                    </li>
-                ))}
+                {recipe.ingredients.map((ingredient, index) => {
+                    const conflict = conflictKinds.get(ingredient.item);
+                    const isMissing = missingLines.has(index);
+                    return (
+                        <li key={index} className={`flex items-center gap-2 p-2 rounded-lg ${
+                            !conflict ? 'bg-gray-700/20' : conflict === 'diet' ? 'bg-amber-900/20 text-amber-100' : 'bg-red-900/30 text-red-100'
+                        } ${isMissing ? 'border border-dashed border-gray-600' : ''}`}>
+                            <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${
+                                !conflict ? (isMissing ? 'bg-transparent border border-gray-400' : 'bg-gray-500') : conflict === 'diet' ? 'bg-amber-400' : 'bg-red-400'
+                            }`}></span>
+                            <span className="flex-grow">{formatRecipeIngredient(ingredient)}</span>
+                            {isMissing && (
+                                <button
+                                    onClick={() => setSwapLine(line => line === index ? null : index)}
+                                    className={`flex-shrink-0 px-2 py-0.5 rounded-md text-xs font-medium border transition-colors ${
+                                        swapLine === index
+                                        ? 'bg-teal-500/20 border-teal-500/40 text-teal-200'
+                                        : 'border-gray-600 text-gray-400 hover:text-white'
+                                    }`}
+                                    title="You don't have this; see substitutes"
+                                    aria-expanded={swapLine === index}
+                                >
+                                    Swap
+                                </button>
+                            )}
+                        </li>
+                    );
+                })}
                 </ul>
+                {missingLines.size > 0 && (
+                    <p className="mt-2 text-xs text-gray-500">Dashed lines aren't on your ingredient list.</p>
+                )}
+                {swapLine !== null && swapIngredient && (
+                    <SubstitutePicker
+                        item={swapIngredient.item}
+                        local={filterSafeSubstitutes(baseRecipe, swapLine, localSubstitutes(swapIngredient), dietaryProfile).map(toOption(swapLine))}
+                        ai={(swapAI?.substitutes ?? []).map(toOption(swapLine))}
+                        isLoadingAI={!!swapAI?.isLoading}
+                        aiError={swapAI?.error ?? null}
+                        onAskAI={onAskSubstitutes && (() => onAskSubstitutes(swapLine))}
+                        disabled={isRequestPending}
+                        onPick={substitute => pickSubstitute(swapLine, substitute)}
+                        onClose={() => setSwapLine(null)}
+                    />
+                )}
             </div>
 
             {/* Instructions (Collapsible) */}
             {isExpanded && (
                 <div className="mt-6 pt-6 border-t border-gray-700 animate-fade-in-down">
-                    <h4 className="text-base sm:text-lg font-semibold text-white mb-4 flex items-center gap-2">
-                        <span className="w-2 h-2 rounded-full bg-teal-400"></span>
-                        Instructions
-                    </h4>
+                    <div className="flex items-center justify-between gap-2 mb-4">
+                        <h4 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
+                            <span className="w-2 h-2 rounded-full bg-teal-400"></span>
+                            Instructions
+                        </h4>
+                        {recipe.instructions.length > 0 && (
+                            <button
+                                onClick={() => setIsCooking(true)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border bg-teal-500/20 border-teal-500/40 text-teal-300 hover:bg-teal-500/30 transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
+                                </svg>
+                                Cook mode
+                            </button>
+                        )}
+                    </div>
                     <ol className="space-y-4 text-gray-300 text-sm sm:text-base list-none">
                     {recipe.instructions.map((instruction, index) => (
                         <li key={index} className="flex gap-3 items-start">
                             <span className="flex-shrink-0 w-6 h-6 rounded-full bg-gray-700 text-teal-400 flex items-center justify-center text-xs font-bold border border-gray-600 mt-0.5">{index + 1}</span>
                             <span className="pt-0.5 leading-relaxed">
-                                {renderInstructionText(instruction)}
+                                <InstructionText text={instruction} onStartTimer={duration => openTimer(duration, index)} />
                             </span>
                         </li>
                     ))}
@@ -179,15 +337,54 @@ const RecipeCard: React.FC<RecipeCardProps> = ({ recipe }) => {
                     </>
                 )}
             </button>
+
+            {onMoreLikeThis && (
+                <button
+                    onClick={onMoreLikeThis}
+                    disabled={isRequestPending}
+                    className="w-full mt-2 py-2 text-sm font-medium text-teal-300 hover:text-teal-200 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                    </svg>
+                    More like this
+                </button>
+            )}
+
+            {onCooked && (
+                <>
+                    <button
+                        onClick={toggleCooked}
+                        className="w-full mt-2 py-2 text-sm font-medium text-teal-300 hover:text-teal-200 transition-colors flex items-center justify-center gap-1.5"
+                        aria-expanded={pantryUses !== null}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                        I cooked this
+                    </button>
+                    {pantryUses && (
+                        <PantryUsePanel uses={pantryUses} onConfirm={confirmCooked} onClose={() => setPantryUses(null)} />
+                    )}
+                </>
+            )}
+
+            {onRefine && (
+                <RecipeRefinePanel
+                    revisions={revisions}
+                    isRefining={isRefining}
+                    error={refineError}
+                    disabled={isRequestPending}
+                    onRefine={onRefine}
+                    onSelectRevision={index => onSelectRevision?.(index)}
+                />
+            )}
         </div>
         </div>
 
-        {/* Global Timer Overlay */}
-        <TimerOverlay 
-            durationSeconds={timerDuration || 0} 
-            isOpen={timerDuration !== null} 
-            onClose={closeTimer} 
-        />
+        {isCooking && (
+            <CookMode recipe={recipe} onStartTimer={openTimer} onClose={() => setIsCooking(false)} />
+        )}
     </>
   );
 };
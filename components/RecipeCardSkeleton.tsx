@@ -0,0 +1,28 @@
+import React from 'react';
+
+// Placeholder shown in the results list for recipes that are still being generated.
+const RecipeCardSkeleton: React.FC = () => {
+  return (
+    <div className="bg-gray-800 rounded-2xl shadow-lg overflow-hidden border border-gray-700 p-4 sm:p-6 animate-pulse" aria-hidden="true">
+        <div className="h-7 w-2/3 bg-gray-700 rounded-lg mb-3"></div>
+        <div className="h-4 w-24 bg-gray-700/70 rounded mb-5"></div>
+        <div className="space-y-2 mb-6">
+            <div className="h-3 w-full bg-gray-700/60 rounded"></div>
+            <div className="h-3 w-5/6 bg-gray-700/60 rounded"></div>
+        </div>
+        <div className="grid grid-cols-4 gap-2 sm:gap-4 mb-6">
+            {[0, 1, 2, 3].map(i => (
+                <div key={i} className="h-14 bg-gray-700/30 rounded-lg border border-gray-700/50"></div>
+            ))}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+            {[0, 1, 2, 3].map(i => (
+                <div key={i} className="h-9 bg-gray-700/20 rounded-lg"></div>
+            ))}
+        </div>
+        <div className="h-12 w-full bg-teal-900/30 rounded-xl"></div>
+    </div>
+  );
+};
+
+export default RecipeCardSkeleton;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { RecipeRevisions } from '../types';
+
+interface RecipeRefinePanelProps {
+  // Absent until the first change is asked for
+  revisions?: RecipeRevisions;
+  isRefining: boolean;
+  error: string | null;
+  // Another request is running; asking now would cancel it
+  disabled: boolean;
+  onRefine: (instruction: string) => void;
+  onSelectRevision: (index: number) => void;
+}
+
+const SUGGESTIONS = ["Make it spicier", "No oven", "Make it vegetarian", "Fewer ingredients", "Make it quicker"];
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+// A small chat for changing one recipe. Each answer becomes a new version; earlier
+// versions stay selectable, and asking again from an older one replaces the later ones.
+const RecipeRefinePanel: React.FC<RecipeRefinePanelProps> = ({ revisions, isRefining, error, disabled, onRefine, onSelectRevision }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const versions = revisions?.versions ?? [];
+  const current = revisions?.current ?? 0;
+  const hasLaterVersions = current < versions.length - 1;
+
+  const send = (instruction: string) => {
+    const text = instruction.trim();
+    if (!text || isRefining || disabled) return;
+    onRefine(text);
+    setInput("");
+  };
+
+  return (
+    <div className="mt-2">
+        <div className="flex items-center justify-center gap-3">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="py-2 text-sm font-medium text-teal-300 hover:text-teal-200 transition-colors flex items-center gap-1.5"
+                aria-expanded={isOpen}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                </svg>
+                {isOpen ? "Hide changes" : "Change this recipe"}
+            </button>
+            {versions.length > 1 && (
+                <div className="flex items-center gap-1 text-xs text-gray-400">
+                    <button
+                        onClick={() => onSelectRevision(current - 1)}
+                        disabled={current === 0 || isRefining}
+                        className="w-6 h-6 rounded-full hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                        aria-label="Previous version"
+                    >
+                        ‹
+                    </button>
+                    <span aria-live="polite">Version {current + 1} of {versions.length}</span>
+                    <button
+                        onClick={() => onSelectRevision(current + 1)}
+                        disabled={!hasLaterVersions || isRefining}
+                        className="w-6 h-6 rounded-full hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                        aria-label="Next version"
+                    >
+                        ›
+                    </button>
+                </div>
+            )}
+        </div>
+
+        {isOpen && (
+            <div className="mt-2 p-3 rounded-xl bg-gray-900/60 border border-gray-700 space-y-3 animate-fade-in-down">
+                {versions.length > 1 && (
+                    <ol className="space-y-2 text-sm">
+                        {versions.map((version, index) => (
+                            <li key={index}>
+                                <button
+                                    onClick={() => onSelectRevision(index)}
+                                    disabled={isRefining}
+                                    className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                                        index === current
+                                        ? 'bg-teal-500/15 border-teal-500/40 text-teal-100'
+                                        : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+                                    } ${index > current ? 'opacity-60' : ''}`}
+                                    aria-current={index === current}
+                                >
+                                    <span className="block text-xs text-gray-500">
+                                        {index === 0 ? "Original" : `Version ${index + 1}`}
+                                        {index === current && " · showing"}
+                                    </span>
+                                    {version.instruction ? `“${version.instruction}”` : version.recipe.recipeName}
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+
+                {hasLaterVersions && (
+                    <p className="text-xs text-amber-300/90">Asking for a change now replaces the versions after this one.</p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    {SUGGESTIONS.map(suggestion => (
+                        <button
+                            key={suggestion}
+                            onClick={() => send(suggestion)}
+                            disabled={isRefining || disabled}
+                            className="px-3 py-1 rounded-full text-xs font-medium bg-gray-800 border border-gray-700 text-gray-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                </div>
+
+                <form
+                    onSubmit={e => {
+                        e.preventDefault();
+                        send(input);
+                    }}
+                    className="flex gap-2"
+                >
+                    <input
+                        type="text"
+                        value={input}
+                        onChange={e => setInput(e.target.value)}
+                        placeholder="e.g. swap the chicken for tofu"
+                        maxLength={MAX_INSTRUCTION_LENGTH}
+                        disabled={isRefining}
+                        className="flex-grow min-w-0 bg-gray-800 rounded-lg border border-gray-700 px-3 py-2 text-white text-sm focus:outline-none focus:border-teal-500 disabled:opacity-60"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!input.trim() || isRefining || disabled}
+                        className="px-4 py-2 rounded-lg bg-teal-600 text-white text-sm font-medium hover:bg-teal-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isRefining ? "Revising..." : "Send"}
+                    </button>
+                </form>
+
+                {disabled && !isRefining && (
+                    <p className="text-xs text-gray-500">Wait for the current request to finish.</p>
+                )}
+                {error && (
+                    <p className="text-xs text-red-300" role="alert">{error}</p>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default RecipeRefinePanel;
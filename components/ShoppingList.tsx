@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import type { Ingredient, Recipe, UnitSystem } from '../types';
+import {
+  buildShoppingList,
+  formatShoppingQuantity,
+  groupByAisle,
+  shoppingListToMarkdown,
+  shoppingListToText,
+} from '../utils/shoppingList';
+
+interface ShoppingListProps {
+  recipes: Recipe[];
+  // What the user already has (scanned or typed in on the review screen)
+  have: Ingredient[];
+  unitSystem: UnitSystem;
+  // Keys of ticked-off items; kept by the parent so they survive navigating away
+  checked: string[];
+  onToggleChecked: (key: string) => void;
+  onBack: () => void;
+}
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The async clipboard API needs a secure context; fall back to a hidden textarea.
+const copyToClipboard = async (text: string) => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const ok = document.execCommand('copy');
+  document.body.removeChild(textarea);
+  if (!ok) throw new Error("Copy command was rejected");
+};
+
+const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, have, unitSystem, checked, onToggleChecked, onBack }) => {
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const items = useMemo(() => buildShoppingList(recipes, have), [recipes, have]);
+  const groups = useMemo(() => groupByAisle(items.filter(i => !i.onHand)), [items]);
+  const onHand = useMemo(() => items.filter(i => i.onHand), [items]);
+  const checkedSet = useMemo(() => new Set(checked), [checked]);
+  const missingCount = groups.reduce((count, group) => count + group.items.length, 0);
+  const remaining = groups.reduce((count, group) => count + group.items.filter(i => !checkedSet.has(i.key)).length, 0);
+
+  const handleCopy = async () => {
+    try {
+      await copyToClipboard(shoppingListToText(groups, checkedSet, unitSystem));
+      setCopyStatus('copied');
+    } catch (err) {
+      console.error("Could not copy shopping list:", err);
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
+  return (
+    <div className="w-full pb-28">
+        <div className="text-center mb-6 pt-4">
+            <h2 className="text-3xl sm:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-300 to-cyan-500 mb-2">
+                Shopping List
+            </h2>
+            <p className="text-gray-400 text-sm sm:text-base">
+                {missingCount === 0
+                    ? "You have everything you need."
+                    : `${remaining} of ${missingCount} item${missingCount === 1 ? '' : 's'} left to buy`}
+            </p>
+            <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                For {recipes.map(r => r.recipeName).join(', ')}
+            </p>
+        </div>
+
+        {missingCount > 0 && (
+            <div className="grid grid-cols-3 gap-2 px-2 sm:px-0 mb-6">
+                <button
+                    onClick={handleCopy}
+                    className="py-2 rounded-xl text-sm font-medium bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                    {copyStatus === 'copied' ? "Copied!" : copyStatus === 'failed' ? "Copy failed" : "Copy"}
+                </button>
+                <button
+                    onClick={() => downloadFile('shopping-list.txt', shoppingListToText(groups, checkedSet, unitSystem), 'text/plain')}
+                    className="py-2 rounded-xl text-sm font-medium bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                    Text
+                </button>
+                <button
+                    onClick={() => downloadFile('shopping-list.md', shoppingListToMarkdown(groups, checkedSet, unitSystem), 'text/markdown')}
+                    className="py-2 rounded-xl text-sm font-medium bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                    Markdown
+                </button>
+            </div>
+        )}
+
+        <div className="space-y-5 px-2 sm:px-0">
+            {groups.map(group => (
+                <div key={group.aisle} className="bg-gray-800 rounded-2xl border border-gray-700 p-4 shadow-lg">
+                    <h3 className="text-sm font-semibold text-teal-300 uppercase tracking-wider mb-3">{group.aisle}</h3>
+                    <ul className="space-y-2">
+                        {group.items.map(item => {
+                            const isChecked = checkedSet.has(item.key);
+                            const quantity = formatShoppingQuantity(item, unitSystem);
+                            return (
+                                <li key={item.key}>
+                                    <label className="flex items-start gap-3 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={isChecked}
+                                            onChange={() => onToggleChecked(item.key)}
+                                            className="mt-1 w-4 h-4 accent-teal-500 flex-shrink-0"
+                                        />
+                                        <span className={`flex-grow text-sm sm:text-base ${isChecked ? 'line-through text-gray-500' : 'text-gray-200'}`}>
+                                            {item.item}
+                                            {quantity && <span className="text-gray-400"> · {quantity}</span>}
+                                            {item.recipes.length > 1 && (
+                                                <span className="block text-xs text-gray-500">{item.recipes.join(', ')}</span>
+                                            )}
+                                        </span>
+                                    </label>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            ))}
+
+            {onHand.length > 0 && (
+                <div className="rounded-2xl border border-dashed border-gray-700 p-4">
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">Already in your kitchen</h3>
+                    <p className="text-sm text-gray-500">
+                        {onHand.map(item => item.item).join(', ')}
+                    </p>
+                </div>
+            )}
+        </div>
+
+        <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-gray-900 via-gray-900 to-transparent z-50 pointer-events-none flex justify-center">
+            <button
+                onClick={onBack}
+                className="pointer-events-auto bg-teal-600 hover:bg-teal-500 active:scale-95 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/50 transition-all duration-300 flex items-center gap-2 backdrop-blur-sm"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back to Recipes
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ShoppingList;
@@ -0,0 +1,70 @@
+import React from 'react';
+import type { Substitute } from '../types';
+
+export interface SubstituteOption {
+  substitute: Substitute;
+  // The ingredient line as it would read with this substitute
+  preview: string;
+}
+
+interface SubstitutePickerProps {
+  item: string;
+  // From the built-in table
+  local: SubstituteOption[];
+  ai: SubstituteOption[];
+  isLoadingAI: boolean;
+  aiError: string | null;
+  // Absent where the AI can't be asked
+  onAskAI?: () => void;
+  // Another request is running
+  disabled: boolean;
+  onPick: (substitute: Substitute) => void;
+  onClose: () => void;
+}
+
+const OptionButton: React.FC<{ option: SubstituteOption; onPick: (substitute: Substitute) => void; tag?: string }> = ({ option, onPick, tag }) => (
+  <button
+      onClick={() => onPick(option.substitute)}
+      className="w-full text-left px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 hover:border-teal-500/50 text-sm text-gray-200 transition-colors"
+  >
+      {option.preview}
+      {tag && <span className="ml-2 text-[10px] uppercase tracking-wider text-teal-400">{tag}</span>}
+  </button>
+);
+
+// Substitutes for one missing ingredient: the built-in table's first, with the AI as a fallback.
+const SubstitutePicker: React.FC<SubstitutePickerProps> = ({ item, local, ai, isLoadingAI, aiError, onAskAI, disabled, onPick, onClose }) => (
+  <div className="mt-3 p-3 rounded-xl bg-gray-900/60 border border-gray-700 space-y-2 animate-fade-in-down">
+      <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium text-white">Instead of {item}</p>
+          <button onClick={onClose} className="w-6 h-6 rounded-full text-gray-400 hover:text-white hover:bg-gray-700" aria-label="Close substitutes">
+              ×
+          </button>
+      </div>
+
+      {local.length === 0 && ai.length === 0 && !isLoadingAI && (
+          <p className="text-xs text-gray-500">No built-in swap for this one.</p>
+      )}
+      {local.map((option, idx) => (
+          <OptionButton key={`local-${idx}`} option={option} onPick={onPick} />
+      ))}
+      {ai.map((option, idx) => (
+          <OptionButton key={`ai-${idx}`} option={option} onPick={onPick} tag="AI" />
+      ))}
+
+      {onAskAI && ai.length === 0 && (
+          <button
+              onClick={onAskAI}
+              disabled={disabled || isLoadingAI}
+              className="text-xs font-medium text-teal-300 hover:text-teal-200 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+              {isLoadingAI ? "Asking the AI..." : local.length > 0 ? "Ask the AI for other ideas" : "Ask the AI for ideas"}
+          </button>
+      )}
+      {aiError && (
+          <p className="text-xs text-red-300" role="alert">{aiError}</p>
+      )}
+  </div>
+);
+
+export default SubstitutePicker;
@@ -1,81 +1,53 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React from 'react';
+import type { KitchenTimer } from '../types';
+import { formatTimerTime, remainingSeconds, secondsUntilCheck } from '../utils/kitchenTimers';
 
 interface TimerOverlayProps {
-  durationSeconds: number;
-  isOpen: boolean;
-  onClose: () => void;
+  timers: KitchenTimer[];
+  // Current time (ms), which the countdowns are worked out from
+  now: number;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRestart: (id: string) => void;
+  onDismiss: (id: string) => void;
 }
 
-const TimerOverlay: React.FC<TimerOverlayProps> = ({ durationSeconds, isOpen, onClose }) => {
-  const [timeLeft, setTimeLeft] = useState(durationSeconds);
-  const [isActive, setIsActive] = useState(true); // Auto-start when opened
-  const [isFinished, setIsFinished] = useState(false);
-  const intervalRef = useRef<number | null>(null);
+type TimerCardProps = { timer: KitchenTimer } & Omit<TimerOverlayProps, 'timers'>;
 
-  // Reset timer when duration changes or modal opens
-  useEffect(() => {
-    if (isOpen) {
-      setTimeLeft(durationSeconds);
-      setIsActive(true);
-      setIsFinished(false);
-    }
-  }, [isOpen, durationSeconds]);
-
-  useEffect(() => {
-    if (isActive && timeLeft > 0) {
-      intervalRef.current = window.setInterval(() => {
-        setTimeLeft((prev) => prev - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      setIsFinished(true);
-      setIsActive(false);
-      if (intervalRef.current) window.clearInterval(intervalRef.current);
-    }
-
-    return () => {
-      if (intervalRef.current) window.clearInterval(intervalRef.current);
-    };
-  }, [isActive, timeLeft]);
+const TimerCard: React.FC<TimerCardProps> = ({ timer, now, onPause, onResume, onRestart, onDismiss }) => {
+  const seconds = remainingSeconds(timer, now);
+  const untilCheck = secondsUntilCheck(timer, now);
+  const isFinished = timer.status === 'done';
+  const isActive = timer.status === 'running';
+  const isCheckDue = timer.checkDue && !isFinished;
 
   const toggleTimer = () => {
-    if (isFinished) {
-        // Restart
-        setTimeLeft(durationSeconds);
-        setIsFinished(false);
-        setIsActive(true);
-    } else {
-        setIsActive(!isActive);
-    }
-  };
-
-  const resetTimer = () => {
-    setTimeLeft(durationSeconds);
-    setIsActive(false);
-    setIsFinished(false);
-  };
-
-  const formatTime = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = seconds % 60;
-    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+    if (isFinished) onRestart(timer.id);
+    else if (isActive) onPause(timer.id);
+    else onResume(timer.id);
   };
 
-  if (!isOpen) return null;
-
   return (
-    // Non-blocking fixed positioning, compact size
-    <div className="fixed top-4 right-4 z-[100] w-72 bg-gray-800/95 backdrop-blur-md border border-gray-600 rounded-2xl shadow-2xl p-4 flex flex-col items-center transition-all duration-300 animate-pulse-subtle pointer-events-auto">
-        {/* Header with Close */}
-        <div className="flex justify-between items-center w-full mb-2">
-            <h3 className="text-gray-400 text-xs font-bold uppercase tracking-wider flex items-center gap-2">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-teal-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                {isFinished ? "Time's Up!" : "Kitchen Timer"}
-            </h3>
-            <button 
-                onClick={onClose}
+    <div className={`w-full bg-gray-800/95 backdrop-blur-md border rounded-2xl shadow-2xl p-4 flex flex-col items-center transition-all duration-300 pointer-events-auto ${
+        isFinished ? 'border-red-500/60 animate-pulse-subtle' : isCheckDue ? 'border-amber-500/60' : 'border-gray-600'
+    }`}>
+        {/* Header with Dismiss */}
+        <div className="flex justify-between items-start gap-2 w-full mb-2">
+            <div className="min-w-0">
+                <h3 className="text-gray-300 text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 flex-shrink-0 text-teal-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span className="truncate">{isFinished ? `Time's up: ${timer.label}` : timer.label}</span>
+                </h3>
+                <p className="text-[11px] text-gray-500 truncate">
+                    {timer.recipeName}{timer.step !== null && ` · step ${timer.step + 1}`}
+                </p>
+            </div>
+            <button
+                onClick={() => onDismiss(timer.id)}
                 className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded-full"
+                aria-label={`Dismiss ${timer.label} timer`}
             >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -84,59 +56,78 @@ const TimerOverlay: React.FC<TimerOverlayProps> = ({ durationSeconds, isOpen, on
         </div>
 
         {/* Clock Display - Compact */}
-        <div className={`text-4xl font-mono font-bold mb-3 tracking-wider tabular-nums ${isFinished ? 'text-red-400 animate-pulse' : 'text-white'}`}>
-            {formatTime(timeLeft)}
+        <div className={`text-3xl font-mono font-bold tracking-wider tabular-nums ${untilCheck !== null || isCheckDue ? 'mb-1' : 'mb-3'} ${isFinished ? 'text-red-400 animate-pulse' : isActive ? 'text-white' : 'text-gray-400'}`}>
+            {formatTimerTime(seconds)}
         </div>
 
+        {/* Range timers: a reminder to check at the short end */}
+        {isCheckDue ? (
+            <p className="text-xs font-medium text-amber-300 mb-2">Check it now · done when this runs out</p>
+        ) : untilCheck !== null && (
+            <p className="text-xs text-gray-400 mb-2">Check in {formatTimerTime(untilCheck)}</p>
+        )}
+
         {/* Progress Bar */}
-        <div className="w-full h-1.5 bg-gray-700 rounded-full mb-4 overflow-hidden">
-            <div 
+        <div className="w-full h-1.5 bg-gray-700 rounded-full mb-3 overflow-hidden">
+            <div
                 className={`h-full transition-all duration-1000 ease-linear ${isFinished ? 'bg-red-500' : 'bg-teal-500'}`}
-                style={{ width: `${(timeLeft / durationSeconds) * 100}%` }}
+                style={{ width: `${(seconds / timer.durationSeconds) * 100}%` }}
             ></div>
         </div>
 
         {/* Controls - Compact */}
         <div className="flex gap-2 w-full">
-            <button 
+            <button
                 onClick={toggleTimer}
                 className={`flex-grow py-2 px-4 rounded-lg font-bold text-sm text-white shadow-sm transition-colors flex items-center justify-center gap-2 ${
-                    isFinished 
-                    ? 'bg-teal-600 hover:bg-teal-500' 
-                    : isActive 
-                        ? 'bg-yellow-600 hover:bg-yellow-500' 
-                        : 'bg-teal-600 hover:bg-teal-500'
+                    isActive ? 'bg-yellow-600 hover:bg-yellow-500' : 'bg-teal-600 hover:bg-teal-500'
                 }`}
             >
                 {isFinished ? (
                     <>
-                         <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg> 
-                         Restart
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                        Restart
                     </>
                 ) : isActive ? (
                     <>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg> 
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
                         Pause
                     </>
                 ) : (
                     <>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg> 
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
                         Resume
                     </>
                 )}
             </button>
-            <button 
-                onClick={resetTimer}
-                className="py-2 px-3 rounded-lg bg-gray-700 text-gray-300 font-bold text-sm hover:bg-gray-600 transition-colors"
-                title="Reset Timer"
-            >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                </svg>
-            </button>
+            {!isFinished && (
+                <button
+                    onClick={() => onRestart(timer.id)}
+                    className="py-2 px-3 rounded-lg bg-gray-700 text-gray-300 font-bold text-sm hover:bg-gray-600 transition-colors"
+                    title="Restart Timer"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                </button>
+            )}
         </div>
     </div>
   );
 };
 
+// Every kitchen timer, stacked in the corner above whatever screen is open (cook mode included).
+const TimerOverlay: React.FC<TimerOverlayProps> = ({ timers, ...handlers }) => {
+  if (timers.length === 0) return null;
+
+  return (
+    // Non-blocking fixed positioning; the stack scrolls if it outgrows the screen
+    <div className="fixed top-4 right-4 z-[100] w-72 max-h-[calc(100dvh-2rem)] overflow-y-auto flex flex-col gap-2 pointer-events-none scrollbar-hide">
+        {timers.map(timer => (
+            <TimerCard key={timer.id} timer={timer} {...handlers} />
+        ))}
+    </div>
+  );
+};
+
 export default TimerOverlay;
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { UnitSystem } from '../types';
+
+interface UnitSystemToggleProps {
+  value: UnitSystem;
+  onChange: (system: UnitSystem) => void;
+}
+
+const OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: 'original', label: 'As written' },
+  { value: 'metric', label: 'Metric' },
+  { value: 'imperial', label: 'US' },
+];
+
+const UnitSystemToggle: React.FC<UnitSystemToggleProps> = ({ value, onChange }) => {
+  return (
+    <div className="inline-flex bg-gray-800 rounded-full p-1 border border-gray-700/50" role="radiogroup" aria-label="Units">
+        {OPTIONS.map(option => (
+            <button
+                key={option.value}
+                onClick={() => onChange(option.value)}
+                role="radio"
+                aria-checked={value === option.value}
+                className={`px-3 py-1 rounded-full text-xs sm:text-sm font-medium transition-colors ${
+                    value === option.value
+                    ? "bg-teal-600 text-white"
+                    : "text-gray-400 hover:text-white"
+                }`}
+            >
+                {option.label}
+            </button>
+        ))}
+    </div>
+  );
+};
+
+export default UnitSystemToggle;
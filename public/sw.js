@@ -0,0 +1,16 @@
+// Service worker for kitchen timer alerts. Installed apps on Android can't create
+// notifications from the page, only through a service worker registration, and
+// tapping one should bring the app back. Nothing is cached.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (windows.length > 0) return windows[0].focus();
+        return self.clients.openWindow('/');
+    })());
+});
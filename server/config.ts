@@ -0,0 +1,42 @@
+export type ProviderName = 'gemini' | 'openai' | 'fixture';
+
+export interface AIConfig {
+    provider: ProviderName;
+    // Model used for ingredient recognition from photos (must accept images).
+    visionModel: string;
+    // Model used for recipe generation.
+    recipeModel: string;
+    apiKey?: string;
+    // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for Ollama.
+    baseUrl?: string;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, { visionModel: string; recipeModel: string }> = {
+    gemini: { visionModel: 'gemini-2.5-flash', recipeModel: 'gemini-3-pro-preview' },
+    openai: { visionModel: 'gpt-4o-mini', recipeModel: 'gpt-4o' },
+    fixture: { visionModel: 'fixture', recipeModel: 'fixture' },
+};
+
+const parseProviderName = (value: string | undefined): ProviderName => {
+    if (!value) return 'gemini';
+    const name = value.trim().toLowerCase();
+    if (name === 'gemini' || name === 'openai' || name === 'fixture') return name;
+    throw new Error(`Unknown AI_PROVIDER '${value}'. Expected one of: gemini, openai, fixture.`);
+};
+
+export const loadAIConfig = (env: NodeJS.ProcessEnv = process.env): AIConfig => {
+    // MOCK_AI predates AI_PROVIDER and is kept as a shortcut for the fixture provider.
+    const mock = env.MOCK_AI === '1' || env.MOCK_AI === 'true';
+    const provider = mock ? 'fixture' : parseProviderName(env.AI_PROVIDER);
+    const defaults = DEFAULT_MODELS[provider];
+
+    return {
+        provider,
+        visionModel: env.AI_VISION_MODEL || defaults.visionModel,
+        recipeModel: env.AI_RECIPE_MODEL || defaults.recipeModel,
+        apiKey: provider === 'openai'
+            ? env.OPENAI_API_KEY
+            : env.API_KEY || env.GEMINI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    };
+};
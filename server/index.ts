@@ -0,0 +1,363 @@
+import http from 'node:http';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { ApiError } from '@google/genai';
+import { loadAIConfig } from './config';
+import { createProvider } from './providers';
+import { UpstreamError } from './providers/types';
+import type { DietaryProfile, Ingredient, Recipe, RecipeRefinementRequest, RecipeRequest, SubstitutionRequest } from '../types';
+import { isEmptyProfile, readDietaryProfile } from '../utils/allergens';
+import { readGenerationOptions } from '../utils/generationOptions';
+
+// Pick up the same .env.local the README tells people to create.
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const STATIC_DIR = path.resolve('dist');
+// Several phone photos as base64 add up quickly.
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+const aiConfig = loadAIConfig();
+const provider = createProvider(aiConfig);
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+// A parsed JSON request body; each route checks the fields it uses.
+type RequestBody = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readJsonBody = (req: http.IncomingMessage): Promise<RequestBody> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+        // Past the limit the rest is drained and dropped; destroying the socket would lose the 413.
+        if (tooLarge) return;
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            tooLarge = true;
+            chunks.length = 0;
+            reject(new HttpError(413, "Request body too large."));
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        if (tooLarge) return;
+        let body: unknown;
+        try {
+            body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        } catch {
+            reject(new HttpError(400, "Request body must be valid JSON."));
+            return;
+        }
+        if (isObject(body)) resolve(body);
+        else reject(new HttpError(400, "Request body must be a JSON object."));
+    });
+    req.on('error', reject);
+});
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+// Transient upstream failures keep their status so the client knows it may retry.
+const upstreamStatus = (error: unknown): number => {
+    const status = error instanceof UpstreamError || error instanceof ApiError ? error.status : undefined;
+    if (status === 429 || status === 503 || status === 504) return status;
+    return 502;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isIngredientArray = (value: unknown): value is Ingredient[] =>
+    Array.isArray(value) && value.every(i => isObject(i) && typeof i.name === 'string' && typeof i.quantity === 'string');
+
+const handleIdentify = async (body: RequestBody, signal: AbortSignal) => {
+    const { images } = body;
+    if (!isStringArray(images) || images.length === 0) {
+        throw new HttpError(400, "Expected 'images' to be a non-empty array of base64 strings.");
+    }
+    const ingredients = await provider.identifyIngredients(images, signal);
+    return { ingredients };
+};
+
+// Meal-plan fills are capped at a week of three meals a day.
+const MAX_MEAL_SLOTS = 21;
+// Keeps "don't repeat these" lists and variation seeds to a sensible prompt size.
+const MAX_EXCLUDED = 50;
+const MAX_SEED_INGREDIENTS = 40;
+const MAX_NAME_LENGTH = 120;
+
+// An empty profile is dropped so the prompt doesn't mention one.
+const readProfile = (body: RequestBody): DietaryProfile | undefined => {
+    if (body.profile === undefined) return undefined;
+    if (!isObject(body.profile)) {
+        throw new HttpError(400, "Expected 'profile' to be an object.");
+    }
+    const profile = readDietaryProfile(body.profile);
+    return isEmptyProfile(profile) ? undefined : profile;
+};
+
+const readRecipeRequest = (body: RequestBody): RecipeRequest => {
+    if (!isIngredientArray(body.ingredients)) {
+        throw new HttpError(400, "Expected 'ingredients' to be an array of ingredients with a name and quantity.");
+    }
+    if (body.options !== undefined && !isObject(body.options)) {
+        throw new HttpError(400, "Expected 'options' to be an object.");
+    }
+    const request: RecipeRequest = {
+        ingredients: body.ingredients.map(({ name, quantity }) => ({ name, quantity })),
+        servings: Number(body.servings) || 1,
+        options: readGenerationOptions(body.options),
+    };
+    const profile = readProfile(body);
+    if (profile) request.profile = profile;
+    if (body.exclude !== undefined) {
+        if (!isStringArray(body.exclude) || body.exclude.length > MAX_EXCLUDED) {
+            throw new HttpError(400, `Expected 'exclude' to be an array of at most ${MAX_EXCLUDED} recipe names.`);
+        }
+        request.exclude = body.exclude.map(name => name.trim().slice(0, MAX_NAME_LENGTH)).filter(Boolean);
+    }
+    if (body.variationOf !== undefined) {
+        const seed = body.variationOf;
+        if (!isObject(seed) || typeof seed.recipeName !== 'string' || !seed.recipeName.trim()
+            || !isStringArray(seed.ingredients) || seed.ingredients.length > MAX_SEED_INGREDIENTS) {
+            throw new HttpError(400, "Expected 'variationOf' to have a recipeName and an array of ingredient names.");
+        }
+        request.variationOf = {
+            recipeName: seed.recipeName.trim().slice(0, MAX_NAME_LENGTH),
+            description: typeof seed.description === 'string' ? seed.description.slice(0, 500) : '',
+            ingredients: seed.ingredients.map(item => item.slice(0, MAX_NAME_LENGTH)),
+        };
+    }
+    if (body.mealSlots !== undefined) {
+        if (!isStringArray(body.mealSlots)
+            || body.mealSlots.length === 0 || body.mealSlots.length > MAX_MEAL_SLOTS) {
+            throw new HttpError(400, `Expected 'mealSlots' to be an array of 1-${MAX_MEAL_SLOTS} strings.`);
+        }
+        request.mealSlots = body.mealSlots;
+    }
+    if (body.expiring !== undefined) {
+        if (!isStringArray(body.expiring) || body.expiring.length > MAX_EXCLUDED) {
+            throw new HttpError(400, `Expected 'expiring' to be an array of at most ${MAX_EXCLUDED} ingredient names.`);
+        }
+        const expiring = body.expiring.map(name => name.trim().slice(0, MAX_NAME_LENGTH)).filter(Boolean);
+        if (expiring.length > 0) request.expiring = expiring;
+    }
+    return request;
+};
+
+// A refinement carries the whole recipe being changed, plus the chat so far.
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_PREVIOUS_INSTRUCTIONS = 20;
+const MAX_RECIPE_LINES = 80;
+
+const readRefinementRequest = (body: RequestBody): RecipeRefinementRequest => {
+    const recipe = body.recipe;
+    if (!isObject(recipe) || typeof recipe.recipeName !== 'string'
+        || !Array.isArray(recipe.ingredients) || recipe.ingredients.length > MAX_RECIPE_LINES
+        || !isStringArray(recipe.instructions) || recipe.instructions.length > MAX_RECIPE_LINES) {
+        throw new HttpError(400, "Expected 'recipe' to be a recipe with a name, ingredients and instructions.");
+    }
+    if (typeof body.instruction !== 'string' || !body.instruction.trim() || body.instruction.length > MAX_INSTRUCTION_LENGTH) {
+        throw new HttpError(400, `Expected 'instruction' to be a non-empty string of at most ${MAX_INSTRUCTION_LENGTH} characters.`);
+    }
+    const previous = body.previousInstructions ?? [];
+    if (!isStringArray(previous) || previous.length > MAX_PREVIOUS_INSTRUCTIONS) {
+        throw new HttpError(400, `Expected 'previousInstructions' to be an array of at most ${MAX_PREVIOUS_INSTRUCTIONS} strings.`);
+    }
+    const request: RecipeRefinementRequest = {
+        // The client validated it when it arrived; the model gets it back as JSON
+        recipe: recipe as unknown as Recipe,
+        instruction: body.instruction.trim(),
+        previousInstructions: previous.map(i => i.slice(0, MAX_INSTRUCTION_LENGTH)),
+        servings: Number(body.servings) || 1,
+    };
+    const profile = readProfile(body);
+    if (profile) request.profile = profile;
+    return request;
+};
+
+const handleRecipes = async (body: RequestBody, signal: AbortSignal) => {
+    const recipes = await provider.generateRecipes(readRecipeRequest(body), signal);
+    return { recipes };
+};
+
+const handleRecipesStream = (body: RequestBody, signal: AbortSignal): AsyncIterable<string> =>
+    provider.streamRecipes(readRecipeRequest(body), signal);
+
+// Keeps a substitution request to one ingredient with a little context.
+const MAX_CONTEXT_ITEMS = 60;
+
+const readContextList = (body: RequestBody, key: string): string[] => {
+    const value = body[key] ?? [];
+    if (!isStringArray(value) || value.length > MAX_CONTEXT_ITEMS) {
+        throw new HttpError(400, `Expected '${key}' to be an array of at most ${MAX_CONTEXT_ITEMS} strings.`);
+    }
+    return value.map(item => item.slice(0, MAX_NAME_LENGTH));
+};
+
+const readSubstitutionRequest = (body: RequestBody): SubstitutionRequest => {
+    const { recipeName, ingredient } = body;
+    if (typeof recipeName !== 'string' || !recipeName.trim()) {
+        throw new HttpError(400, "Expected 'recipeName' to be a non-empty string.");
+    }
+    if (typeof ingredient !== 'string' || !ingredient.trim()) {
+        throw new HttpError(400, "Expected 'ingredient' to be a non-empty string.");
+    }
+    const request: SubstitutionRequest = {
+        recipeName: recipeName.trim().slice(0, MAX_NAME_LENGTH),
+        ingredient: ingredient.trim().slice(0, MAX_NAME_LENGTH),
+        otherIngredients: readContextList(body, 'otherIngredients'),
+        available: readContextList(body, 'available'),
+    };
+    const profile = readProfile(body);
+    if (profile) request.profile = profile;
+    return request;
+};
+
+const handleRefine = async (body: RequestBody, signal: AbortSignal) => {
+    const recipe = await provider.refineRecipe(readRefinementRequest(body), signal);
+    return { recipe };
+};
+
+const handleSubstitutes = async (body: RequestBody, signal: AbortSignal) => {
+    const substitutes = await provider.suggestSubstitutes(readSubstitutionRequest(body), signal);
+    return { substitutes };
+};
+
+const routes: Record<string, (body: RequestBody, signal: AbortSignal) => Promise<unknown>> = {
+    '/api/identify': handleIdentify,
+    '/api/recipes': handleRecipes,
+    '/api/recipes/refine': handleRefine,
+    '/api/substitutes': handleSubstitutes,
+};
+
+// Endpoints that stream model text straight through as it is generated.
+const streamRoutes: Record<string, (body: RequestBody, signal: AbortSignal) => AsyncIterable<string>> = {
+    '/api/recipes/stream': handleRecipesStream,
+};
+
+const pipeStream = async (res: http.ServerResponse, chunks: AsyncIterable<string>) => {
+    const iterator = chunks[Symbol.asyncIterator]();
+    // Wait for the first chunk before committing to a 200, so early failures still get a real status.
+    let result = await iterator.next();
+    res.writeHead(200, {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'X-Accel-Buffering': 'no',
+    });
+    while (!result.done) {
+        res.write(result.value);
+        result = await iterator.next();
+    }
+    res.end();
+};
+
+// A path like "/%zz" can't be decoded; that's the client's mistake, not a crash.
+const decodePath = (urlPath: string): string => {
+    try {
+        return decodeURIComponent(urlPath);
+    } catch {
+        throw new HttpError(400, "Malformed URL.");
+    }
+};
+
+// Serves the built client from dist/, falling back to index.html for client-side routes.
+const serveStatic = (urlPath: string, res: http.ServerResponse) => {
+    let filePath = path.join(STATIC_DIR, path.normalize(decodePath(urlPath)));
+    // The separator keeps a sibling like dist-old/ from passing as inside dist/.
+    if (!filePath.startsWith(STATIC_DIR + path.sep) || !existsSync(filePath) || statSync(filePath).isDirectory()) {
+        filePath = path.join(STATIC_DIR, 'index.html');
+    }
+    if (!existsSync(filePath)) {
+        res.writeHead(404);
+        res.end("Not found. Run `npm run build` to generate the client bundle.");
+        return;
+    }
+    let contents: Buffer;
+    try {
+        contents = readFileSync(filePath);
+    } catch (error) {
+        console.error(`Could not read ${filePath}:`, error);
+        throw new HttpError(500, "Could not read the file.");
+    }
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+    res.end(contents);
+};
+
+const server = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const handler = routes[pathname];
+    const streamHandler = streamRoutes[pathname];
+
+    // Stop paying for the upstream call if the client cancels or disconnects.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        if (!handler && !streamHandler) {
+            if (pathname.startsWith('/api/')) {
+                sendJson(res, 404, { error: "Unknown endpoint." });
+            } else {
+                serveStatic(pathname, res);
+            }
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: "Method not allowed." });
+            return;
+        }
+
+        const body = await readJsonBody(req);
+        if (streamHandler) {
+            await pipeStream(res, streamHandler(body, controller.signal));
+        } else {
+            sendJson(res, 200, await handler(body, controller.signal));
+        }
+    } catch (error) {
+        // Checked before the cancel test: our own errors are answered even if the socket is closing.
+        if (error instanceof HttpError && !res.headersSent) {
+            // An oversized body is still arriving; close the connection once the 413 is written.
+            sendJson(res, error.status, { error: error.message }, error.status === 413 ? { Connection: 'close' } : {});
+            return;
+        }
+        if (controller.signal.aborted) return;
+        if (res.headersSent) {
+            // Mid-stream failure: cut the response short; the client sees an incomplete array.
+            console.error(`Stream for ${pathname} failed:`, error);
+            res.end();
+            return;
+        }
+        console.error(`Error handling ${pathname}:`, error);
+        sendJson(res, upstreamStatus(error), { error: "The AI service request failed." });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Culinary Vision server listening on http://localhost:${PORT} (AI provider: ${provider.name}, models: ${aiConfig.visionModel} / ${aiConfig.recipeModel})`);
+});
@@ -0,0 +1,139 @@
+import type { DietaryProfile, GenerationOptions, RecipeRefinementRequest, RecipeRequest, SubstitutionRequest } from '../types';
+import { ALLERGEN_LABELS, DIET_LABELS } from '../utils/allergens';
+import { COURSE_LABELS } from '../utils/generationOptions';
+
+// Prompt text shared by every provider so switching backends doesn't change what we ask for.
+
+export const IDENTIFY_PROMPT = "Analyze the ingredients in these images. Identify each distinct food item and estimate its quantity (e.g., '1 apple', '200g flour', 'a handful of spinach'). Combine findings from all images into a single list. If an item is unidentifiable, ignore it. Provide the response as a JSON array of objects, where each object has 'name' and 'quantity' keys, plus 'amount' (a number, or null if vague) and 'unit' (or null for a plain count).";
+
+// What every generated recipe must include.
+const RECIPE_FIELDS = `a brief, enticing description, an estimated prep time (e.g. "30 mins"), a list of all required ingredients as structured amount, unit and item with quantities adjusted for the specified serving size, step-by-step instructions, and an estimated nutritional overview per serving as plain numbers (calories in kcal; protein, carbs, fat, fiber and sugar in grams; sodium in milligrams)`;
+
+const joinList = (items: string[]) =>
+    items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const DIFFICULTY_HINTS = {
+    easy: 'easy for a beginner: few steps, basic techniques and little active work',
+    medium: 'of medium difficulty, suitable for a confident home cook',
+    hard: 'challenging projects for an experienced cook, with more involved techniques',
+};
+
+const joinOr = (items: string[]) =>
+    items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
+
+// `course` is skipped for meal-plan fills, where each slot already names its meal.
+const describeOptions = ({ cuisines, diets, course, maxPrepMinutes, difficulty, equipment }: GenerationOptions, includeCourse: boolean): string => {
+    let text = '';
+    if (cuisines.length === 1) {
+        text += ` The recipes must strictly align with ${cuisines[0]} cuisine.`;
+    } else if (cuisines.length > 1) {
+        text += ` Each recipe must belong to one of these cuisines: ${joinOr(cuisines)}; spread the recipes across them, or combine them where it works naturally.`;
+    }
+    if (diets.length > 0) {
+        text += ` Every recipe must be ${joinList(diets.map(d => DIET_LABELS[d].toLowerCase()))}.`;
+    }
+    if (course && includeCourse) {
+        text += ` Every recipe must work as a ${COURSE_LABELS[course].toLowerCase()} dish.`;
+    }
+    if (maxPrepMinutes) {
+        text += ` Each recipe must be ready to eat in ${maxPrepMinutes} minutes or less in total, including cooking, and its prep time must reflect that.`;
+    }
+    if (difficulty) {
+        text += ` The recipes should be ${DIFFICULTY_HINTS[difficulty]}.`;
+    }
+    if (equipment.length > 0) {
+        text += ` Every recipe must make use of ${joinList(equipment.map(e => `${/^[aeiou]/i.test(e) ? 'an' : 'a'} ${e.toLowerCase()}`))}.`;
+    }
+    return text;
+};
+
+// Stated as hard rules; the client still checks every recipe against the profile.
+const describeProfile = ({ allergens, diets, avoid }: DietaryProfile): string => {
+    const rules: string[] = [];
+    if (allergens.length > 0) {
+        rules.push(`the diner is allergic to ${joinList(allergens.map(a => ALLERGEN_LABELS[a].toLowerCase()))}, so no recipe may contain them or anything made from them (check sauces, stocks, pastes and dressings too)`);
+    }
+    if (diets.length > 0) {
+        rules.push(`every recipe must be ${joinList(diets.map(d => DIET_LABELS[d].toLowerCase()))}`);
+    }
+    if (avoid.length > 0) {
+        rules.push(`never use ${joinList(avoid)}`);
+    }
+    return ` Dietary requirements that must never be broken: ${rules.join('; ')}. If an available ingredient conflicts with these, leave it out.`;
+};
+
+export const buildRecipePrompt = ({ ingredients, servings, options, profile, exclude, variationOf, mealSlots, expiring }: RecipeRequest): string => {
+    // Format ingredients list, handling cases where quantity might be empty (user added)
+    const ingredientList = ingredients.map(i => i.quantity ? `${i.quantity} ${i.name}` : i.name).join(', ');
+
+    let promptText: string;
+    if (mealSlots && mealSlots.length > 0) {
+        promptText = `Please plan ${mealSlots.length} recipes for ${servings} serving(s), one for each of these meals in this order: ${mealSlots.join(', ')}.`
+            + ` Each recipe must suit its meal (e.g. a breakfast dish for breakfast), and avoid repeating the same dish.`;
+        if (ingredientList) {
+            promptText += ` The following ingredients are on hand: ${ingredientList}. Use them up first, sharing them across meals where it makes sense, so that as little extra shopping as possible is needed.`;
+        }
+    } else if (variationOf) {
+        promptText = `Please provide ${options.count} variation(s) of the recipe "${variationOf.recipeName}" for ${servings} serving(s).`
+            + (variationOf.description ? ` The original is described as: ${variationOf.description}` : '')
+            + ` Its ingredients are: ${variationOf.ingredients.join(', ')}.`
+            + ` Each variation should keep what makes the dish appealing but change something meaningful, such as the main protein, the cooking method or the flavour profile, and the variations must differ from each other and from the original.`;
+        if (ingredientList) {
+            promptText += ` Where it suits the dish, use these ingredients that are on hand: ${ingredientList}.`;
+        }
+    } else {
+        promptText = `Based on the following ingredients: ${ingredientList}, please provide ${options.count} diverse recipe suggestion(s) for ${servings} serving(s).`;
+    }
+
+    if (expiring && expiring.length > 0) {
+        promptText += ` These ingredients will go off within a few days, so prioritise recipes that use them up: ${joinList(expiring)}.`;
+    }
+
+    if (exclude && exclude.length > 0) {
+        promptText += ` The user has already seen these recipes, so do not suggest any of them again or a close copy under another name: ${exclude.map(name => `"${name}"`).join(', ')}.`;
+    }
+
+    promptText += describeOptions(options, !mealSlots);
+
+    if (profile) {
+        promptText += describeProfile(profile);
+    }
+
+    promptText += ` For each recipe, include ${RECIPE_FIELDS}. Provide the response as a JSON array.`;
+
+    return promptText;
+};
+
+export const buildRefinePrompt = ({ recipe, instruction, previousInstructions, servings, profile }: RecipeRefinementRequest): string => {
+    let promptText = `Here is a recipe for ${servings} serving(s), as JSON: ${JSON.stringify(recipe)}`;
+    if (previousInstructions.length > 0) {
+        promptText += ` It has already been changed at the user's request: ${previousInstructions.map(i => `"${i}"`).join(', then ')}. Keep those changes unless the new request undoes them.`;
+    }
+    promptText += ` Revise the recipe as follows: "${instruction}".`
+        + ` Change only what the request calls for, keep the rest of the dish intact, and rename the recipe if the change makes the old name inaccurate.`
+        + ` Make sure the ingredients, instructions, prep time and nutrition all agree with the revised dish.`;
+
+    if (profile) {
+        promptText += describeProfile(profile);
+    }
+
+    promptText += ` Return the complete revised recipe with ${RECIPE_FIELDS}. Provide the response as a single JSON object.`;
+
+    return promptText;
+};
+
+export const buildSubstitutionPrompt = ({ recipeName, ingredient, otherIngredients, available, profile }: SubstitutionRequest): string => {
+    let promptText = `A cook making "${recipeName}" doesn't have this ingredient: ${ingredient}.`;
+    if (otherIngredients.length > 0) {
+        promptText += ` The recipe's other ingredients are: ${otherIngredients.join(', ')}.`;
+    }
+    promptText += ` Suggest up to 3 substitutes that would work in this dish, best first.`;
+    if (available.length > 0) {
+        promptText += ` Prefer substitutes made from what the cook has on hand: ${available.join(', ')}.`;
+    }
+    if (profile) {
+        promptText += describeProfile(profile);
+    }
+    promptText += ` For each substitute give 'item' (its name as it should appear in the ingredient list), 'ratio' (how much of it to use per unit of the original, e.g. 1 for the same amount or 0.5 for half), 'unit' (only when it is measured in a different unit from the original, otherwise null) and 'note' (a short tip on using it, or null). Provide the response as a JSON array.`;
+    return promptText;
+};
@@ -0,0 +1,142 @@
+import type { Ingredient, NutritionalInfo, Recipe, RecipeRefinementRequest, RecipeRequest, Substitute, SubstitutionRequest } from '../../types';
+import type { RecipeAIProvider } from './types';
+
+// Canned responses for offline development and tests (AI_PROVIDER=fixture or MOCK_AI=1),
+// so the whole flow can be exercised without a network connection or an API key.
+
+const FIXTURE_INGREDIENTS: Ingredient[] = [
+    { name: "Eggs", quantity: "6" },
+    { name: "Spinach", quantity: "a handful" },
+    { name: "Cherry Tomatoes", quantity: "200g" },
+    { name: "Feta Cheese", quantity: "100g" },
+    { name: "Onion", quantity: "1" },
+];
+
+const nutrition = (calories: number, protein: number, carbs: number, fat: number, fiber: number, sugar: number, sodium: number): NutritionalInfo => ({
+    calories: { value: calories, unit: 'kcal' },
+    protein: { value: protein, unit: 'g' },
+    carbs: { value: carbs, unit: 'g' },
+    fat: { value: fat, unit: 'g' },
+    fiber: { value: fiber, unit: 'g' },
+    sugar: { value: sugar, unit: 'g' },
+    sodium: { value: sodium, unit: 'mg' },
+});
+
+const FIXTURE_RECIPES: Recipe[] = [
+    {
+        recipeName: "Spinach & Feta Frittata",
+        description: "A fluffy oven-finished frittata studded with wilted spinach, blistered tomatoes and salty feta.",
+        prepTime: "25 mins",
+        ingredients: [
+            { item: "eggs", amount: 4, unit: null },
+            { item: "spinach", amount: 1, unit: "handful" },
+            { item: "cherry tomatoes", amount: 100, unit: "g" },
+            { item: "feta cheese", amount: 50, unit: "g" },
+            { item: "onion", amount: 0.5, unit: null, note: "diced" },
+            { item: "olive oil", amount: 1, unit: "tbsp" },
+        ],
+        instructions: [
+            "Preheat the oven to 200°C (400°F).",
+            "Soften the onion in the olive oil over medium heat for 5 minutes.",
+            "Add the spinach and tomatoes and cook for 2 minutes until the spinach wilts.",
+            "Whisk the eggs, pour over the vegetables and crumble in the feta.",
+            "Cook on the stove for 3 minutes, then bake for 10-12 minutes until set.",
+        ],
+        nutritionalInfo: nutrition(320, 21, 8, 23, 2, 5, 780),
+    },
+    {
+        recipeName: "Shakshuka-Style Baked Eggs",
+        description: "Eggs gently poached in a quick tomato and onion sauce, finished with feta.",
+        prepTime: "30 mins",
+        ingredients: [
+            { item: "eggs", amount: 4, unit: null },
+            { item: "cherry tomatoes", amount: 200, unit: "g" },
+            { item: "onion", amount: 1, unit: null, note: "sliced" },
+            { item: "feta cheese", amount: 50, unit: "g" },
+            { item: "paprika", amount: 1, unit: "tsp" },
+            { item: "olive oil", amount: 1, unit: "tbsp" },
+        ],
+        instructions: [
+            "Cook the onion in the olive oil for 8 minutes until soft.",
+            "Add the tomatoes and paprika and simmer for 10 minutes.",
+            "Make four wells, crack in the eggs and cover for 6-8 minutes.",
+            "Crumble over the feta and serve.",
+        ],
+        nutritionalInfo: nutrition(290, 17, 12, 19, 3, 6, 640),
+    },
+    {
+        recipeName: "Greek Spinach Omelette",
+        description: "A quick folded omelette filled with spinach, tomato and feta.",
+        prepTime: "10 mins",
+        ingredients: [
+            { item: "eggs", amount: 2, unit: null },
+            { item: "spinach", amount: 1, unit: "handful" },
+            { item: "cherry tomatoes", amount: 4, unit: null, note: "halved" },
+            { item: "feta cheese", amount: 25, unit: "g" },
+            { item: "butter", amount: 1, unit: "tsp" },
+        ],
+        instructions: [
+            "Beat the eggs with a pinch of salt.",
+            "Melt the butter in a pan and cook the spinach for 1 minute.",
+            "Pour in the eggs and cook for 2 minutes, then add tomato and feta.",
+            "Fold and cook for 30 seconds more.",
+        ],
+        nutritionalInfo: nutrition(260, 16, 4, 20, 1, 3, 420),
+    },
+];
+
+// Small slices with a pause in between, so streaming UI can be seen working offline.
+const STREAM_CHUNK_SIZE = 64;
+const STREAM_DELAY_MS = 15;
+
+// Meal-plan fills ask for one recipe per slot; cycle through the fixtures to match.
+// Otherwise honour the requested count, skipping fixtures the client already has.
+const fixtureRecipesFor = (request: RecipeRequest): Recipe[] => {
+    if (request.mealSlots) {
+        return request.mealSlots.map((_, i) => structuredClone(FIXTURE_RECIPES[i % FIXTURE_RECIPES.length]));
+    }
+    const excluded = new Set(request.exclude ?? []);
+    return FIXTURE_RECIPES
+        .filter(recipe => !excluded.has(recipe.recipeName))
+        .slice(0, request.options.count)
+        .map(recipe => structuredClone(recipe));
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createFixtureProvider = (): RecipeAIProvider => ({
+    name: 'fixture',
+
+    async identifyIngredients(): Promise<Ingredient[]> {
+        return structuredClone(FIXTURE_INGREDIENTS);
+    },
+
+    async generateRecipes(request: RecipeRequest): Promise<Recipe[]> {
+        return fixtureRecipesFor(request);
+    },
+
+    async *streamRecipes(request: RecipeRequest, signal?: AbortSignal): AsyncIterable<string> {
+        const text = JSON.stringify(fixtureRecipesFor(request), null, 2);
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            if (signal?.aborted) return;
+            await delay(STREAM_DELAY_MS);
+            yield text.slice(i, i + STREAM_CHUNK_SIZE);
+        }
+    },
+
+    // Echoes the instruction into the description so each revision is visibly different.
+    // The posted recipe isn't validated on the server, so its description may be missing.
+    async refineRecipe({ recipe, instruction, previousInstructions }: RecipeRefinementRequest): Promise<Recipe> {
+        const description = typeof recipe.description === 'string' ? recipe.description : '';
+        return {
+            ...structuredClone(recipe),
+            description: `${description} (Revision ${previousInstructions.length + 1}: ${instruction})`.trim(),
+        };
+    },
+
+    // Suggests something from the scanned fixtures, so choosing it clears the "missing" mark.
+    async suggestSubstitutes({ available }: SubstitutionRequest): Promise<Substitute[]> {
+        const pick = available[0] ?? FIXTURE_INGREDIENTS[0].name;
+        return [{ item: pick.toLowerCase(), ratio: 1, note: "Fixture suggestion" }];
+    },
+});
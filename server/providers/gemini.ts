@@ -0,0 +1,212 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { RecipeRefinementRequest, RecipeRequest, SubstitutionRequest } from '../../types';
+import type { AIConfig } from '../config';
+import { IDENTIFY_PROMPT, buildRecipePrompt, buildRefinePrompt, buildSubstitutionPrompt } from '../prompts';
+import type { RecipeAIProvider } from './types';
+
+const INGREDIENTS_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            name: {
+                type: Type.STRING,
+                description: 'The name of the ingredient.',
+            },
+            quantity: {
+                type: Type.STRING,
+                description: 'The estimated quantity of the ingredient.',
+            },
+            amount: {
+                type: Type.NUMBER,
+                nullable: true,
+                description: 'The numeric part of the quantity, or null if it is vague.',
+            },
+            unit: {
+                type: Type.STRING,
+                nullable: true,
+                description: "The unit of the quantity (e.g. 'g', 'cup', 'bunch'), or null for a plain count.",
+            },
+        },
+        required: ['name', 'quantity'],
+    },
+};
+
+const RECIPE_INGREDIENT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        item: { type: Type.STRING, description: "The ingredient name, e.g. 'plain flour'." },
+        amount: { type: Type.NUMBER, nullable: true, description: "The numeric amount, or null for vague quantities like 'to taste'." },
+        amountMax: { type: Type.NUMBER, nullable: true, description: "Upper bound when the amount is a range (e.g. 3 for '2-3 cloves'), otherwise null." },
+        unit: { type: Type.STRING, nullable: true, description: "The unit (e.g. 'g', 'ml', 'cup', 'tbsp', 'clove'), or null for a plain count." },
+        note: { type: Type.STRING, nullable: true, description: "Preparation or vague wording, e.g. 'finely chopped' or 'to taste'." },
+    },
+    required: ["item", "amount", "unit"],
+};
+
+const RECIPE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        recipeName: {
+            type: Type.STRING,
+            description: "The name of the recipe."
+        },
+        description: {
+            type: Type.STRING,
+            description: "A brief, enticing description of the dish."
+        },
+        prepTime: {
+            type: Type.STRING,
+            description: "Estimated preparation time (e.g., '20 mins')."
+        },
+        ingredients: {
+            type: Type.ARRAY,
+            items: RECIPE_INGREDIENT_SCHEMA,
+            description: "A list of all ingredients required for the recipe, with quantities adjusted for the specified serving size."
+        },
+        instructions: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.STRING,
+            },
+            description: "Step-by-step instructions to prepare the dish."
+        },
+        nutritionalInfo: {
+            type: Type.OBJECT,
+            description: "An estimated nutritional overview per serving.",
+            properties: {
+                calories: { type: Type.NUMBER, description: "Estimated kilocalories per serving." },
+                protein: { type: Type.NUMBER, description: "Estimated protein in grams per serving." },
+                carbs: { type: Type.NUMBER, description: "Estimated carbohydrates in grams per serving." },
+                fat: { type: Type.NUMBER, description: "Estimated fat in grams per serving." },
+                fiber: { type: Type.NUMBER, nullable: true, description: "Estimated fiber in grams per serving." },
+                sugar: { type: Type.NUMBER, nullable: true, description: "Estimated sugars in grams per serving." },
+                sodium: { type: Type.NUMBER, nullable: true, description: "Estimated sodium in milligrams per serving." }
+            },
+            required: ["calories", "protein", "carbs", "fat"],
+        }
+    },
+    required: ["recipeName", "description", "prepTime", "ingredients", "instructions", "nutritionalInfo"],
+};
+
+const RECIPES_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    items: RECIPE_SCHEMA,
+};
+
+const SUBSTITUTES_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            item: { type: Type.STRING, description: "The substitute's name as it should appear in the ingredient list." },
+            ratio: { type: Type.NUMBER, description: "Amount of the substitute per unit of the original (1 = the same amount)." },
+            unit: { type: Type.STRING, nullable: true, description: "The substitute's unit when it differs from the original's, otherwise null." },
+            note: { type: Type.STRING, nullable: true, description: "A short tip on using the substitute, or null." },
+        },
+        required: ["item", "ratio"],
+    },
+};
+
+export const createGeminiProvider = (config: AIConfig): RecipeAIProvider => {
+    let client: GoogleGenAI | null = null;
+
+    // The client is created lazily so the server can boot without a key until the first call.
+    const getClient = (): GoogleGenAI => {
+        if (!client) {
+            if (!config.apiKey) {
+                throw new Error("API_KEY environment variable not set");
+            }
+            client = new GoogleGenAI({ apiKey: config.apiKey });
+        }
+        return client;
+    };
+
+    return {
+        name: 'gemini',
+
+        async identifyIngredients(base64Images: string[], signal?: AbortSignal): Promise<unknown> {
+            const imageParts = base64Images.map(base64 => ({
+                inlineData: {
+                    data: base64,
+                    mimeType: 'image/jpeg',
+                },
+            }));
+
+            const response = await getClient().models.generateContent({
+                model: config.visionModel,
+                contents: { parts: [...imageParts, { text: IDENTIFY_PROMPT }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: INGREDIENTS_SCHEMA,
+                    abortSignal: signal,
+                },
+            });
+
+            const jsonText = response.text?.trim() || "[]";
+            return JSON.parse(jsonText);
+        },
+
+        async generateRecipes(request: RecipeRequest, signal?: AbortSignal): Promise<unknown> {
+            const response = await getClient().models.generateContent({
+                model: config.recipeModel,
+                contents: { parts: [{ text: buildRecipePrompt(request) }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: RECIPES_SCHEMA,
+                    abortSignal: signal,
+                },
+            });
+
+            const jsonText = response.text?.trim() || "[]";
+            return JSON.parse(jsonText);
+        },
+
+        async *streamRecipes(request: RecipeRequest, signal?: AbortSignal): AsyncIterable<string> {
+            const stream = await getClient().models.generateContentStream({
+                model: config.recipeModel,
+                contents: { parts: [{ text: buildRecipePrompt(request) }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: RECIPES_SCHEMA,
+                    abortSignal: signal,
+                },
+            });
+
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        async refineRecipe(request: RecipeRefinementRequest, signal?: AbortSignal): Promise<unknown> {
+            const response = await getClient().models.generateContent({
+                model: config.recipeModel,
+                contents: { parts: [{ text: buildRefinePrompt(request) }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: RECIPE_SCHEMA,
+                    abortSignal: signal,
+                },
+            });
+
+            const jsonText = response.text?.trim() || "{}";
+            return JSON.parse(jsonText);
+        },
+
+        async suggestSubstitutes(request: SubstitutionRequest, signal?: AbortSignal): Promise<unknown> {
+            const response = await getClient().models.generateContent({
+                model: config.recipeModel,
+                contents: { parts: [{ text: buildSubstitutionPrompt(request) }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: SUBSTITUTES_SCHEMA,
+                    abortSignal: signal,
+                },
+            });
+
+            const jsonText = response.text?.trim() || "[]";
+            return JSON.parse(jsonText);
+        },
+    };
+};
@@ -0,0 +1,18 @@
+import type { AIConfig } from '../config';
+import { createFixtureProvider } from './fixture';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai';
+import type { RecipeAIProvider } from './types';
+
+export type { RecipeAIProvider } from './types';
+
+export const createProvider = (config: AIConfig): RecipeAIProvider => {
+    switch (config.provider) {
+        case 'gemini':
+            return createGeminiProvider(config);
+        case 'openai':
+            return createOpenAICompatibleProvider(config);
+        case 'fixture':
+            return createFixtureProvider();
+    }
+};
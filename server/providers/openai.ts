@@ -0,0 +1,128 @@
+import type { RecipeRefinementRequest, RecipeRequest, SubstitutionRequest } from '../../types';
+import type { AIConfig } from '../config';
+import { IDENTIFY_PROMPT, buildRecipePrompt, buildRefinePrompt, buildSubstitutionPrompt } from '../prompts';
+import { UpstreamError } from './types';
+import type { RecipeAIProvider } from './types';
+
+// Talks to any server implementing the OpenAI chat completions API
+// (OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio...).
+
+type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+    role: 'system' | 'user';
+    content: string | ChatContentPart[];
+}
+
+// JSON mode only guarantees an object at the top level, so arrays are wrapped under a key.
+const wrapInstruction = (key: string) =>
+    ` Respond with a single JSON object of the form {"${key}": [...]} and nothing else.`;
+
+export const createOpenAICompatibleProvider = (config: AIConfig): RecipeAIProvider => {
+    const request = async (model: string, messages: ChatMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        // Local model servers usually don't need a key.
+        if (config.apiKey) {
+            headers.Authorization = `Bearer ${config.apiKey}`;
+        }
+
+        const response = await fetch(`${config.baseUrl?.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model,
+                messages,
+                stream,
+                response_format: { type: 'json_object' },
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new UpstreamError(response.status, `Chat completion failed with status ${response.status}: ${await response.text()}`);
+        }
+        return response;
+    };
+
+    const complete = async (model: string, messages: ChatMessage[], signal?: AbortSignal): Promise<unknown> => {
+        const response = await request(model, messages, false, signal);
+        const payload = await response.json();
+        const content: string = payload.choices?.[0]?.message?.content?.trim() || "{}";
+        return JSON.parse(content);
+    };
+
+    const unwrap = (result: unknown, key: string): unknown => {
+        if (Array.isArray(result)) return result;
+        if (typeof result !== 'object' || result === null) return [];
+        return Object.entries(result).find(([k]) => k === key)?.[1] ?? [];
+    };
+
+    // Reads the server-sent events of a streamed completion and yields the content deltas.
+    async function* streamContent(model: string, messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+        const response = await request(model, messages, true, signal);
+        if (!response.body) return;
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+            buffer += decoder.decode(bytes, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+    }
+
+    const recipeKeys = `the keys recipeName, description, prepTime, ingredients (array of objects with item, amount (number or null), amountMax (number or null), unit (string or null) and note), instructions (array of strings) and nutritionalInfo (object with calories in kcal, protein, carbs, fat, fiber and sugar in grams and sodium in milligrams, all as plain numbers)`;
+
+    const recipePrompt = (request: RecipeRequest) =>
+        buildRecipePrompt(request)
+        + ` Each recipe object must have ${recipeKeys}.`
+        + wrapInstruction('recipes');
+
+    return {
+        name: 'openai',
+
+        async identifyIngredients(base64Images: string[], signal?: AbortSignal): Promise<unknown> {
+            const content: ChatContentPart[] = [
+                ...base64Images.map(base64 => ({
+                    type: 'image_url' as const,
+                    image_url: { url: `data:image/jpeg;base64,${base64}` },
+                })),
+                { type: 'text', text: IDENTIFY_PROMPT + wrapInstruction('ingredients') },
+            ];
+            const result = await complete(config.visionModel, [{ role: 'user', content }], signal);
+            return unwrap(result, 'ingredients');
+        },
+
+        async generateRecipes(request: RecipeRequest, signal?: AbortSignal): Promise<unknown> {
+            const prompt = recipePrompt(request);
+            const result = await complete(config.recipeModel, [{ role: 'user', content: prompt }], signal);
+            return unwrap(result, 'recipes');
+        },
+
+        streamRecipes(request: RecipeRequest, signal?: AbortSignal): AsyncIterable<string> {
+            // The stream carries {"recipes": [...]}; the client-side parser picks out the array.
+            const prompt = recipePrompt(request);
+            return streamContent(config.recipeModel, [{ role: 'user', content: prompt }], signal);
+        },
+
+        async refineRecipe(request: RecipeRefinementRequest, signal?: AbortSignal): Promise<unknown> {
+            // A single object is already valid JSON mode output, so it needs no wrapper.
+            const prompt = `${buildRefinePrompt(request)} The object must have ${recipeKeys}, and nothing else may be returned.`;
+            return await complete(config.recipeModel, [{ role: 'user', content: prompt }], signal);
+        },
+
+        async suggestSubstitutes(request: SubstitutionRequest, signal?: AbortSignal): Promise<unknown> {
+            const prompt = buildSubstitutionPrompt(request) + wrapInstruction('substitutes');
+            const result = await complete(config.recipeModel, [{ role: 'user', content: prompt }], signal);
+            return unwrap(result, 'substitutes');
+        },
+    };
+};
@@ -0,0 +1,29 @@
+import type { RecipeRefinementRequest, RecipeRequest, SubstitutionRequest } from '../../types';
+
+/**
+ * A backend capable of turning photos into ingredients and ingredients into recipes.
+ * Implementations return the model output as parsed but unchecked JSON, typed `unknown`;
+ * the client validates its shape.
+ * The signal is aborted when the client goes away, so upstream calls can be dropped early.
+ */
+export interface RecipeAIProvider {
+    readonly name: string;
+    /** Ingredients, as parsed JSON. */
+    identifyIngredients(base64Images: string[], signal?: AbortSignal): Promise<unknown>;
+    /** Recipes, as parsed JSON. */
+    generateRecipes(request: RecipeRequest, signal?: AbortSignal): Promise<unknown>;
+    /** Same request as generateRecipes, yielding the raw JSON array text as the model writes it. */
+    streamRecipes(request: RecipeRequest, signal?: AbortSignal): AsyncIterable<string>;
+    /** One revised recipe, as parsed JSON. */
+    refineRecipe(request: RecipeRefinementRequest, signal?: AbortSignal): Promise<unknown>;
+    /** Substitutes, as parsed JSON. */
+    suggestSubstitutes(request: SubstitutionRequest, signal?: AbortSignal): Promise<unknown>;
+}
+
+/** Thrown by providers when the upstream model API answers with an HTTP error. */
+export class UpstreamError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'UpstreamError';
+    }
+}
@@ -0,0 +1,108 @@
+import type { KitchenTimer } from '../types';
+import { describeDuration } from '../utils/durations';
+
+// How a finished kitchen timer gets attention: a beeping alarm through Web Audio,
+// and a system notification for when the app isn't on screen. Browsers only
+// allow sound and permission prompts after a tap, so prepareTimerAlerts is
+// called whenever the user starts a timer.
+//
+// Both come from the page, so they go off only while it is still running: a
+// hidden tab is throttled and may be late, and a page the browser has frozen or
+// closed raises nothing until it is opened again (the timer then shows as done).
+
+// Served from public/; only needed for notifications.
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Three short beeps, repeated; a check reminder beeps just once through.
+const BEEPS_PER_BURST = 3;
+const ALARM_BURSTS = 4;
+export const CHECK_ALARM_BURSTS = 1;
+const BEEP_SECONDS = 0.15;
+const BEEP_GAP_SECONDS = 0.2;
+const BURST_GAP_SECONDS = 1;
+const BEEP_FREQUENCY = 880;
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+    if (audioContext) return audioContext;
+    const Context = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Context) return null;
+    audioContext = new Context();
+    return audioContext;
+};
+
+const canNotify = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+/** Registers the service worker notifications are shown through; call once on startup. */
+export const registerAlertWorker = (): void => {
+    if (!canNotify() || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+        .catch(e => console.warn("Could not register the service worker; timer notifications may not show:", e));
+};
+
+/** Unlocks sound and asks once for notification permission; call from a tap or click. */
+export const prepareTimerAlerts = (): void => {
+    getAudioContext()?.resume().catch(() => {});
+    if (canNotify() && Notification.permission === 'default') {
+        Notification.requestPermission().catch(e => console.warn("Could not ask for notification permission:", e));
+    }
+};
+
+/** Beeps for a few seconds. */
+export const playAlarm = (bursts = ALARM_BURSTS): void => {
+    const context = getAudioContext();
+    if (!context) return;
+    context.resume().catch(() => {});
+    const start = context.currentTime + 0.05;
+    for (let burst = 0; burst < bursts; burst++) {
+        for (let beep = 0; beep < BEEPS_PER_BURST; beep++) {
+            const at = start + burst * BURST_GAP_SECONDS + beep * BEEP_GAP_SECONDS;
+            const oscillator = context.createOscillator();
+            const gain = context.createGain();
+            oscillator.type = 'square';
+            oscillator.frequency.value = BEEP_FREQUENCY;
+            // Ramped to avoid clicks at either end
+            gain.gain.setValueAtTime(0.0001, at);
+            gain.gain.exponentialRampToValueAtTime(0.3, at + 0.01);
+            gain.gain.exponentialRampToValueAtTime(0.0001, at + BEEP_SECONDS);
+            oscillator.connect(gain).connect(context.destination);
+            oscillator.start(at);
+            oscillator.stop(at + BEEP_SECONDS + 0.01);
+        }
+    }
+};
+
+/**
+ * A system notification that `timer` is done, or (for a range) due a check, if
+ * permission was given. Shown through the service worker registration, which is
+ * the only way that works in installed apps on mobile; a page constructs one
+ * itself only if the worker couldn't be registered.
+ */
+export const notifyTimer = async (timer: KitchenTimer, reason: 'done' | 'check'): Promise<void> => {
+    if (!canNotify() || Notification.permission !== 'granted') return;
+    const where = timer.step !== null ? `${timer.recipeName} · step ${timer.step + 1}` : timer.recipeName;
+    const title = reason === 'done' ? `Time's up: ${timer.label}` : `Check: ${timer.label}`;
+    const options: NotificationOptions = {
+        body: reason === 'check' && timer.checkAfterSeconds !== null
+            ? `${where} · at most ${describeDuration(timer.durationSeconds - timer.checkAfterSeconds)} to go`
+            : where,
+        // One notification per timer, replaced by the next one it raises
+        tag: `kitchen-timer-${timer.id}`,
+        requireInteraction: true,
+    };
+    try {
+        const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+        if (registration) {
+            await registration.showNotification(title, options);
+            return;
+        }
+        const notification = new Notification(title, options);
+        notification.onclick = () => {
+            window.focus();
+            notification.close();
+        };
+    } catch (e) {
+        console.warn("Could not show a timer notification:", e);
+    }
+};
@@ -0,0 +1,55 @@
+import type { Recipe } from '../types';
+import { recipeNameKey } from '../utils/recipeSimilarity';
+
+// The step each recipe was last left on in cook mode, so re-entering resumes
+// there. Small and needed synchronously, so it lives in localStorage.
+
+const STORAGE_KEY = 'culinary-vision:cook-progress';
+// Only the most recently cooked recipes are remembered.
+const MAX_ENTRIES = 20;
+
+interface CookProgress {
+    step: number;
+    updatedAt: number;
+}
+
+// A revised recipe with a different number of steps starts over.
+const progressKey = (recipe: Recipe) => `${recipeNameKey(recipe.recipeName)}|${recipe.instructions.length}`;
+
+const readAll = (): Record<string, CookProgress> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+        return {};
+    }
+};
+
+const writeAll = (all: Record<string, CookProgress>) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch (e) {
+        // Private browsing or a full quota; cook mode just starts from the top next time.
+        console.warn("Could not save cook progress", e);
+    }
+};
+
+/** The step to resume `recipe` at; 0 when it hasn't been started or was finished. */
+export const loadCookStep = (recipe: Recipe): number => {
+    const step = readAll()[progressKey(recipe)]?.step;
+    return typeof step === 'number' && Number.isInteger(step) && step >= 0 && step < recipe.instructions.length ? step : 0;
+};
+
+export const saveCookStep = (recipe: Recipe, step: number): void => {
+    const all = { ...readAll(), [progressKey(recipe)]: { step, updatedAt: Date.now() } };
+    const kept = Object.entries(all)
+        .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_ENTRIES);
+    writeAll(Object.fromEntries(kept));
+};
+
+export const clearCookStep = (recipe: Recipe): void => {
+    const all = readAll();
+    delete all[progressKey(recipe)];
+    writeAll(all);
+};
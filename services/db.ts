@@ -0,0 +1,79 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// Each schema change bumps DB_VERSION and adds a step to `upgrade`.
+
+const DB_NAME = 'culinary-vision';
+const DB_VERSION = 4;
+
+export const STORES = {
+    recipes: 'recipes',
+    history: 'history',
+    mealPlans: 'mealPlans',
+    pantry: 'pantry',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const recipes = db.createObjectStore(STORES.recipes, { keyPath: 'id' });
+        recipes.createIndex('savedAt', 'savedAt');
+    }
+    if (oldVersion < 2) {
+        const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+        history.createIndex('createdAt', 'createdAt');
+    }
+    if (oldVersion < 3) {
+        db.createObjectStore(STORES.mealPlans, { keyPath: 'weekStart' });
+    }
+    if (oldVersion < 4) {
+        db.createObjectStore(STORES.pantry, { keyPath: 'id' });
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to try again if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Runs a single request against one store in its own transaction. */
+export const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    // Writes only count once the transaction has committed.
+    const committed = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    // If the request itself fails we surface that error instead.
+    committed.catch(() => {});
+    const result = await promisifyRequest(run(transaction.objectStore(storeName)));
+    if (mode === 'readwrite') {
+        await committed;
+    }
+    return result;
+};
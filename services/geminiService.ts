@@ -1,137 +1,304 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { Ingredient, Recipe } from '../types';
+import type { DietaryProfile, GenerationOptions, Ingredient, Recipe, RecipeRefinementRequest, RecipeRequest, Substitute, SubstitutionRequest } from '../types';
+import { findDietaryConflicts, isRejectedByProfile } from '../utils/allergens';
+import { formatRecipeIngredient } from '../utils/ingredients';
+import { DEFAULT_GENERATION_OPTIONS } from '../utils/generationOptions';
+import { findDuplicate, toRecipeSeed } from '../utils/recipeSimilarity';
+import { filterSafeSubstitutes } from '../utils/substitutions';
+import { postJson, postWithRetry, isAbortError, RequestTimeoutError } from './http';
+import { createJsonArrayStreamParser } from './jsonStream';
+import { ResponseValidationError, validateIngredients, validateRecipeItem, validateSubstitutes } from './validation';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+// All model calls go through our own backend (see server/), which holds the API key.
+
+export interface ServiceCallOptions {
+    // Abort to cancel the call; the promise then rejects with an AbortError.
+    signal?: AbortSignal;
+}
+
+export interface RecipeStreamOptions extends ServiceCallOptions {
+    // Called as each recipe finishes streaming, with its index among the recipes kept and its
+    // position in the model's array (which counts dropped ones). If the request is retried, both restart at 0.
+    onRecipe?: (recipe: Recipe, index: number, position: number) => void;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The pro model can take a while to write three full recipes.
+const IDENTIFY_TIMEOUT_MS = 45_000;
+const RECIPES_TIMEOUT_MS = 120_000;
+// One recipe, but the model rewrites all of it.
+const REFINE_TIMEOUT_MS = 60_000;
+const SUBSTITUTES_TIMEOUT_MS = 30_000;
+// A meal-plan fill can ask for a week's worth at once.
+const MEAL_PLAN_TIMEOUT_MS = 240_000;
+// The server rejects longer "don't repeat these" lists; the most recent names matter most.
+const MAX_EXCLUDED_NAMES = 50;
 
-export const identifyIngredientsFromImage = async (base64Images: string[]): Promise<Ingredient[]> => {
-    const imageParts = base64Images.map(base64 => ({
-        inlineData: {
-            data: base64,
-            mimeType: 'image/jpeg',
-        },
-    }));
+const excludedNames = (recipes: Recipe[]) => recipes.slice(-MAX_EXCLUDED_NAMES).map(r => r.recipeName);
 
-    const textPart = {
-        text: "Analyze the ingredients in these images. Identify each distinct food item and estimate its quantity (e.g., '1 apple', '200g flour', 'a handful of spinach'). Combine findings from all images into a single list. If an item is unidentifiable, ignore it. Provide the response as a JSON array of objects, where each object has 'name' and 'quantity' keys.",
-    };
+// Errors that already carry a message meant for the user, or that callers need to recognise.
+const isPassthroughError = (error: unknown): boolean =>
+    isAbortError(error) || error instanceof RequestTimeoutError || error instanceof ResponseValidationError;
 
+export const identifyIngredientsFromImage = async (base64Images: string[], options: ServiceCallOptions = {}): Promise<Ingredient[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [...imageParts, textPart] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            name: {
-                                type: Type.STRING,
-                                description: 'The name of the ingredient.',
-                            },
-                            quantity: {
-                                type: Type.STRING,
-                                description: 'The estimated quantity of the ingredient.',
-                            },
-                        },
-                        required: ['name', 'quantity'],
-                    },
-                },
-            },
-        });
-
-        const jsonText = response.text?.trim() || "[]";
-        const ingredients: Ingredient[] = JSON.parse(jsonText);
-        return ingredients;
+        const { ingredients } = await postJson<{ ingredients: unknown }>(
+            '/api/identify',
+            { images: base64Images },
+            { signal: options.signal, timeoutMs: IDENTIFY_TIMEOUT_MS },
+        );
+        return validateIngredients(ingredients).value;
 
     } catch (error) {
+        if (isPassthroughError(error)) throw error;
         console.error("Error identifying ingredients:", error);
         throw new Error("Failed to identify ingredients from the images. Please try clearer pictures.");
     }
 };
 
-export const fetchRecipesFromIngredients = async (ingredients: Ingredient[], servings: number, cuisine: string): Promise<Recipe[]> => {
-    // Format ingredients list, handling cases where quantity might be empty (user added)
-    const ingredientList = ingredients.map(i => i.quantity ? `${i.quantity} ${i.name}` : i.name).join(', ');
+// Streams the model's JSON array and validates each recipe as soon as it is complete.
+// Recipes containing an allergen or avoided ingredient from `profile` are dropped,
+// as are (when `dedupe` is set) repeats of `shown` or of an earlier recipe in the same response.
+const readRecipeStream = async (
+    response: Response,
+    onRecipe: RecipeStreamOptions['onRecipe'],
+    profile: DietaryProfile | undefined,
+    shown: Recipe[],
+    dedupe: boolean,
+): Promise<Recipe[]> => {
+    const recipes: Recipe[] = [];
+    const issues: string[] = [];
+    let rejected = 0;
+    let duplicates = 0;
+    const parser = createJsonArrayStreamParser((item, index) => {
+        const result = validateRecipeItem(item, index);
+        issues.push(...result.issues);
+        if (!result.value) return;
+        const conflicts = profile ? findDietaryConflicts(result.value, profile) : [];
+        if (isRejectedByProfile(conflicts)) {
+            rejected++;
+            const reasons = conflicts.filter(c => c.kind !== 'diet').map(c => `${c.label} (${c.ingredient})`);
+            issues.push(`Recipe "${result.value.recipeName}" was dropped: contains ${reasons.join(', ')}.`);
+            return;
+        }
+        const duplicate = dedupe ? findDuplicate(result.value, [...shown, ...recipes]) : undefined;
+        if (duplicate) {
+            duplicates++;
+            issues.push(`Recipe "${result.value.recipeName}" was dropped: too similar to "${duplicate.recipeName}".`);
+            return;
+        }
+        recipes.push(result.value);
+        onRecipe?.(result.value, recipes.length - 1, index);
+    });
 
-    let promptText = `Based on the following ingredients: ${ingredientList}, please provide 3 diverse recipe suggestions for ${servings} serving(s).`;
-    
-    if (cuisine && cuisine !== "Open") {
-        promptText += ` The recipes must strictly align with the '${cuisine}' cuisine or dietary style.`;
+    if (!response.body) {
+        parser.push(await response.text());
+    } else {
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parser.push(value);
+        }
     }
 
-    promptText += ` For each recipe, include a brief, enticing description, an estimated prep time (e.g. "30 mins"), a list of all required ingredients with quantities adjusted for the specified serving size, step-by-step instructions, and an estimated nutritional overview per serving (calories, protein, carbs, fat). Provide the response as a JSON array.`;
+    if (recipes.length === 0 && duplicates > 0) {
+        throw new ResponseValidationError(
+            'NO_NEW_ITEMS',
+            "The AI only came up with recipes you've already seen. Please try again.",
+            issues,
+        );
+    }
+    if (recipes.length === 0 && rejected > 0) {
+        throw new ResponseValidationError(
+            'PROFILE_CONFLICT',
+            "Every suggested recipe used something your dietary profile rules out. Please try again.",
+            issues,
+        );
+    }
+    if (recipes.length === 0) {
+        throw new ResponseValidationError(
+            parser.isComplete ? 'NO_VALID_ITEMS' : 'MALFORMED_RESPONSE',
+            "The AI response didn't contain any usable recipes. Please try again.",
+            issues,
+        );
+    }
+    if (!parser.isComplete) {
+        console.warn(`Recipe stream ended early after ${recipes.length} recipe(s).`);
+    }
+    if (rejected > 0 || duplicates > 0) {
+        console.warn(`Dropped ${rejected} recipe(s) that broke the dietary profile and ${duplicates} duplicate(s):`, issues);
+    }
+    return recipes;
+};
 
-    const textPart = {
-        text: promptText,
-    };
+const streamRecipeRequest = (request: RecipeRequest, options: RecipeStreamOptions, timeoutMs: number, shown: Recipe[] = [], dedupe = true): Promise<Recipe[]> =>
+    postWithRetry(
+        '/api/recipes/stream',
+        request,
+        response => readRecipeStream(response, options.onRecipe, request.profile, shown, dedupe),
+        { signal: options.signal, timeoutMs },
+    );
 
+export const fetchRecipesFromIngredients = async (
+    ingredients: Ingredient[],
+    servings: number,
+    generationOptions: GenerationOptions,
+    profile: DietaryProfile,
+    // Names of ingredients close to expiry, which the recipes should use first
+    expiring: string[] = [],
+    options: RecipeStreamOptions = {},
+): Promise<Recipe[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: { parts: [textPart] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            recipeName: {
-                                type: Type.STRING,
-                                description: "The name of the recipe."
-                            },
-                            description: {
-                                type: Type.STRING,
-                                description: "A brief, enticing description of the dish."
-                            },
-                            prepTime: {
-                                type: Type.STRING,
-                                description: "Estimated preparation time (e.g., '20 mins')."
-                            },
-                            ingredients: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.STRING,
-                                },
-                                description: "A list of all ingredients required for the recipe, with quantities adjusted for the specified serving size."
-                            },
-                            instructions: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.STRING,
-                                },
-                                description: "Step-by-step instructions to prepare the dish."
-                            },
-                            nutritionalInfo: {
-                                type: Type.OBJECT,
-                                description: "An estimated nutritional overview per serving.",
-                                properties: {
-                                    calories: { type: Type.STRING, description: "Estimated calories per serving." },
-                                    protein: { type: Type.STRING, description: "Estimated protein (in grams) per serving." },
-                                    carbs: { type: Type.STRING, description: "Estimated carbohydrates (in grams) per serving." },
-                                    fat: { type: Type.STRING, description: "Estimated fat (in grams) per serving." }
-                                },
-                                required: ["calories", "protein", "carbs", "fat"],
-                            }
-                        },
-                        required: ["recipeName", "description", "prepTime", "ingredients", "instructions", "nutritionalInfo"],
-                    },
-                },
-            },
-        });
-        
-        const jsonText = response.text?.trim() || "[]";
-        const recipes: Recipe[] = JSON.parse(jsonText);
-        return recipes;
+        const request: RecipeRequest = { ingredients, servings, options: generationOptions, profile, ...(expiring.length > 0 && { expiring }) };
+        return await streamRecipeRequest(request, options, RECIPES_TIMEOUT_MS);
 
     } catch (error) {
+        if (isPassthroughError(error)) throw error;
         console.error("Error fetching recipes:", error);
         throw new Error("Failed to generate recipes. The ingredients might not be suitable for common dishes.");
     }
-};
\ No newline at end of file
+};
+
+/** More recipes for the same ingredients and options, none of them repeating `shown`. */
+export const fetchMoreRecipes = async (
+    ingredients: Ingredient[],
+    servings: number,
+    generationOptions: GenerationOptions,
+    profile: DietaryProfile,
+    shown: Recipe[],
+    expiring: string[] = [],
+    options: RecipeStreamOptions = {},
+): Promise<Recipe[]> => {
+    try {
+        const request: RecipeRequest = {
+            ingredients, servings, options: generationOptions, profile, exclude: excludedNames(shown),
+            ...(expiring.length > 0 && { expiring }),
+        };
+        return await streamRecipeRequest(request, options, RECIPES_TIMEOUT_MS, shown);
+
+    } catch (error) {
+        if (isPassthroughError(error)) throw error;
+        console.error("Error fetching more recipes:", error);
+        throw new Error("Failed to generate more recipes. Please try again.");
+    }
+};
+
+/** "More like this": variations of `recipe`, none of them repeating it or anything else in `shown`. */
+export const fetchRecipeVariations = async (
+    recipe: Recipe,
+    ingredients: Ingredient[],
+    servings: number,
+    generationOptions: GenerationOptions,
+    profile: DietaryProfile,
+    shown: Recipe[],
+    options: RecipeStreamOptions = {},
+): Promise<Recipe[]> => {
+    const others = shown.includes(recipe) ? shown : [recipe, ...shown];
+    try {
+        const request: RecipeRequest = {
+            ingredients,
+            servings,
+            options: generationOptions,
+            profile,
+            exclude: excludedNames(others),
+            variationOf: toRecipeSeed(recipe),
+        };
+        return await streamRecipeRequest(request, options, RECIPES_TIMEOUT_MS, others);
+
+    } catch (error) {
+        if (isPassthroughError(error)) throw error;
+        console.error("Error fetching recipe variations:", error);
+        throw new Error("Failed to come up with variations. Please try again.");
+    }
+};
+
+/**
+ * A revised version of `recipe` following `instruction` ("make it spicier", "no oven").
+ * `previousInstructions` are the earlier turns of the chat, already applied to `recipe`.
+ */
+export const refineRecipe = async (
+    recipe: Recipe,
+    instruction: string,
+    previousInstructions: string[],
+    servings: number,
+    profile: DietaryProfile,
+    options: ServiceCallOptions = {},
+): Promise<Recipe> => {
+    try {
+        const request: RecipeRefinementRequest = { recipe, instruction, previousInstructions, servings, profile };
+        const response = await postJson<{ recipe: unknown }>('/api/recipes/refine', request, { signal: options.signal, timeoutMs: REFINE_TIMEOUT_MS });
+        const { value, issues } = validateRecipeItem(response.recipe, 0);
+        if (!value) {
+            throw new ResponseValidationError('NO_VALID_ITEMS', "The AI response didn't contain a usable recipe. Please try again.", issues);
+        }
+        const conflicts = findDietaryConflicts(value, profile);
+        if (isRejectedByProfile(conflicts)) {
+            const reasons = conflicts.filter(c => c.kind !== 'diet').map(c => `${c.label} (${c.ingredient})`);
+            throw new ResponseValidationError(
+                'PROFILE_CONFLICT',
+                "The revised recipe used something your dietary profile rules out. Try asking for a different change.",
+                [...issues, `Contains ${reasons.join(', ')}.`],
+            );
+        }
+        return value;
+
+    } catch (error) {
+        if (isPassthroughError(error)) throw error;
+        console.error("Error refining recipe:", error);
+        throw new Error("Failed to revise the recipe. Please try again.");
+    }
+};
+
+/**
+ * AI substitutes for ingredient line `index` of `recipe`, for when the built-in table has none.
+ * Suggestions that break the dietary profile are dropped.
+ */
+export const fetchSubstitutes = async (
+    recipe: Recipe,
+    index: number,
+    have: Ingredient[],
+    profile: DietaryProfile,
+    options: ServiceCallOptions = {},
+): Promise<Substitute[]> => {
+    const ingredient = recipe.ingredients[index];
+    try {
+        const request: SubstitutionRequest = {
+            recipeName: recipe.recipeName,
+            ingredient: formatRecipeIngredient(ingredient),
+            otherIngredients: recipe.ingredients.filter((_, i) => i !== index).map(i => i.item),
+            available: have.map(i => i.name),
+            profile,
+        };
+        const response = await postJson<{ substitutes: unknown }>('/api/substitutes', request, { signal: options.signal, timeoutMs: SUBSTITUTES_TIMEOUT_MS });
+        const { value, issues } = validateSubstitutes(response.substitutes);
+        const safe = filterSafeSubstitutes(recipe, index, value, profile);
+        if (safe.length === 0) {
+            throw new ResponseValidationError(
+                value.length > 0 ? 'PROFILE_CONFLICT' : 'NO_VALID_ITEMS',
+                `The AI couldn't suggest a suitable substitute for ${ingredient.item}.`,
+                issues,
+            );
+        }
+        return safe;
+
+    } catch (error) {
+        if (isPassthroughError(error)) throw error;
+        console.error("Error fetching substitutes:", error);
+        throw new Error("Failed to find substitutes. Please try again.");
+    }
+};
+
+/**
+ * Asks for one recipe per meal-plan slot, in slot order, built around `ingredients`
+ * so they get used up before anything new is bought. A recipe's slot is its
+ * `position` in onRecipe; repeats are kept, since a dish may fairly appear twice in a week.
+ */
+export const fetchMealPlanRecipes = async (ingredients: Ingredient[], servings: number, mealSlots: string[], profile: DietaryProfile, options: RecipeStreamOptions = {}): Promise<Recipe[]> => {
+    try {
+        return await streamRecipeRequest({ ingredients, servings, options: DEFAULT_GENERATION_OPTIONS, profile, mealSlots }, options, MEAL_PLAN_TIMEOUT_MS, [], false);
+
+    } catch (error) {
+        if (isPassthroughError(error)) throw error;
+        console.error("Error filling meal plan:", error);
+        throw new Error("Failed to plan meals. Please try again.");
+    }
+};
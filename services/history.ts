@@ -0,0 +1,64 @@
+import type { HistoryEntry } from '../types';
+import { STORES, withStore } from './db';
+import { normalizeRecipe } from '../utils/ingredients';
+import { readStoredGenerationOptions } from '../utils/generationOptions';
+
+// Oldest entries are pruned past this, so photos don't pile up in storage.
+const MAX_HISTORY_ENTRIES = 50;
+const THUMBNAIL_SIZE = 160;
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'thumbnails'> & {
+    // Full-size data URLs; these are shrunk before storing.
+    images: string[];
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image for thumbnail."));
+    img.src = src;
+});
+
+export const createThumbnail = async (dataUrl: string, maxSize = THUMBNAIL_SIZE): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return dataUrl;
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// Newest first.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+    const all = await withStore(STORES.history, 'readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+    return all
+        .map(entry => ({ ...entry, options: readStoredGenerationOptions(entry), recipes: entry.recipes.map(normalizeRecipe) }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Overwrites an existing entry, e.g. after more recipes were generated for it.
+export const updateHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+    await withStore(STORES.history, 'readwrite', store => store.put(entry));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    await withStore(STORES.history, 'readwrite', store => store.delete(id));
+};
+
+export const addHistoryEntry = async ({ images, ...rest }: NewHistoryEntry): Promise<HistoryEntry> => {
+    const thumbnails = await Promise.all(images.map(img => createThumbnail(img).catch(() => null)));
+    const entry: HistoryEntry = {
+        ...rest,
+        id: crypto.randomUUID(),
+        thumbnails: thumbnails.filter((t): t is string => t !== null),
+        createdAt: Date.now(),
+    };
+    await withStore(STORES.history, 'readwrite', store => store.put(entry));
+
+    const all = await listHistory();
+    await Promise.all(all.slice(MAX_HISTORY_ENTRIES).map(old => deleteHistoryEntry(old.id)));
+    return entry;
+};
@@ -0,0 +1,125 @@
+// Thin fetch wrapper for our API: a deadline per call, retries with exponential backoff
+// and full jitter on transient failures (network errors, 429, 503, 504), and caller cancellation.
+
+export interface RequestOptions {
+    // Aborting this cancels the request (including any pending retry).
+    signal?: AbortSignal;
+    // Deadline for the whole call, retries included.
+    timeoutMs?: number;
+    maxAttempts?: number;
+}
+
+export class HttpStatusError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpStatusError';
+    }
+}
+
+export class RequestTimeoutError extends Error {
+    constructor(message = "The request took too long. Please try again.") {
+        super(message);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 10_000;
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+// The server keeps 429/503/504 for upstream failures worth retrying and answers
+// everything else with 502, so retrying that would only repeat the same failure.
+const RETRYABLE_STATUSES = new Set([429, 503, 504]);
+
+const isRetryable = (error: unknown): boolean => {
+    if (error instanceof HttpStatusError) {
+        return RETRYABLE_STATUSES.has(error.status);
+    }
+    // fetch rejects with a TypeError when the network itself fails.
+    return error instanceof TypeError;
+};
+
+const retryDelay = (attempt: number, retryAfterHeader: string | null): number => {
+    const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+    if (!isNaN(retryAfterSeconds)) {
+        return Math.min(retryAfterSeconds * 1000, MAX_DELAY_MS);
+    }
+    const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+    return Math.random() * ceiling;
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+/**
+ * Wires the caller's signal and the deadline into a single controller.
+ * The returned cleanup must be called once the request settles.
+ */
+const linkSignals = (signal: AbortSignal | undefined, timeoutMs: number) => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    if (signal?.aborted) {
+        onAbort();
+    } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    const timer = setTimeout(() => controller.abort(new RequestTimeoutError()), timeoutMs);
+    const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    };
+    return { signal: controller.signal, cleanup };
+};
+
+/**
+ * POSTs JSON, retrying transient failures, and hands the OK response to `read`.
+ * Reading happens inside the same deadline/cancellation scope as the request itself.
+ * Rejects with an AbortError if the caller aborts, or RequestTimeoutError past the deadline.
+ */
+export const postWithRetry = async <T>(
+    path: string,
+    body: unknown,
+    read: (response: Response) => Promise<T>,
+    options: RequestOptions = {},
+): Promise<T> => {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, maxAttempts = DEFAULT_MAX_ATTEMPTS } = options;
+    const linked = linkSignals(options.signal, timeoutMs);
+
+    try {
+        for (let attempt = 0; ; attempt++) {
+            let retryAfter: string | null = null;
+            try {
+                const response = await fetch(path, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body),
+                    signal: linked.signal,
+                });
+                if (response.ok) return await read(response);
+
+                retryAfter = response.headers.get('Retry-After');
+                const payload = await response.json().catch(() => null);
+                throw new HttpStatusError(response.status, payload?.error || `Request to ${path} failed with status ${response.status}.`);
+            } catch (error) {
+                if (linked.signal.aborted) throw linked.signal.reason;
+                if (attempt + 1 >= maxAttempts || !isRetryable(error)) throw error;
+                console.warn(`Request to ${path} failed (attempt ${attempt + 1}/${maxAttempts}), retrying:`, error);
+                await sleep(retryDelay(attempt, retryAfter), linked.signal);
+            }
+        }
+    } finally {
+        linked.cleanup();
+    }
+};
+
+export const postJson = <T>(path: string, body: unknown, options?: RequestOptions): Promise<T> =>
+    postWithRetry(path, body, response => response.json() as Promise<T>, options);
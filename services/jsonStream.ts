@@ -0,0 +1,105 @@
+// Incremental parser for a JSON array arriving in arbitrary text chunks.
+// It emits each element of the first array it meets as soon as that element is
+// complete, without waiting for the closing bracket. Anything before that array
+// (e.g. a `{"recipes":` wrapper) is skipped.
+
+export interface JsonArrayStreamParser {
+    push(chunk: string): void;
+    // True once the target array's closing bracket has been seen.
+    readonly isComplete: boolean;
+}
+
+export const createJsonArrayStreamParser = (
+    onItem: (item: unknown, index: number) => void,
+): JsonArrayStreamParser => {
+    let buffer = '';
+    let pos = 0;
+    let depth = 0;
+    // Depth of the target array's contents, or -1 until it has been found.
+    let arrayDepth = -1;
+    let inString = false;
+    let escaped = false;
+    // Offset in `buffer` where the element currently being read starts.
+    let itemStart = -1;
+    let itemIsPrimitive = false;
+    let index = 0;
+    let complete = false;
+
+    const emit = (end: number) => {
+        const text = buffer.slice(itemStart, end).trim();
+        itemStart = -1;
+        try {
+            onItem(JSON.parse(text), index++);
+        } catch (error) {
+            console.warn("Skipping unparseable streamed item:", error);
+        }
+    };
+
+    const push = (chunk: string) => {
+        if (complete) return;
+        buffer += chunk;
+
+        for (; pos < buffer.length && !complete; pos++) {
+            const c = buffer[pos];
+
+            if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (c === '\\') {
+                    escaped = true;
+                } else if (c === '"') {
+                    inString = false;
+                    // A string element closes at the array's own level.
+                    if (depth === arrayDepth && itemStart >= 0 && !itemIsPrimitive) emit(pos + 1);
+                }
+                continue;
+            }
+
+            const atElementLevel = arrayDepth >= 0 && depth === arrayDepth;
+
+            if (atElementLevel && itemStart >= 0 && itemIsPrimitive && (c === ',' || c === ']')) {
+                emit(pos);
+            }
+
+            if (c === '"') {
+                if (atElementLevel && itemStart < 0) {
+                    itemStart = pos;
+                    itemIsPrimitive = false;
+                }
+                inString = true;
+            } else if (c === '{' || c === '[') {
+                if (arrayDepth < 0 && c === '[') {
+                    arrayDepth = depth + 1;
+                } else if (atElementLevel && itemStart < 0) {
+                    itemStart = pos;
+                    itemIsPrimitive = false;
+                }
+                depth++;
+            } else if (c === '}' || c === ']') {
+                depth--;
+                if (arrayDepth >= 0 && depth === arrayDepth - 1) {
+                    complete = true;
+                } else if (arrayDepth >= 0 && depth === arrayDepth && itemStart >= 0) {
+                    emit(pos + 1);
+                }
+            } else if (atElementLevel && itemStart < 0 && c !== ',' && !/\s/.test(c)) {
+                // Numbers, true/false/null.
+                itemStart = pos;
+                itemIsPrimitive = true;
+            }
+        }
+
+        // Drop everything already consumed so the buffer only holds the pending element.
+        const keepFrom = itemStart >= 0 ? itemStart : pos;
+        buffer = buffer.slice(keepFrom);
+        pos -= keepFrom;
+        if (itemStart >= 0) itemStart = 0;
+    };
+
+    return {
+        push,
+        get isComplete() {
+            return complete;
+        },
+    };
+};
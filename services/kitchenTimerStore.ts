@@ -0,0 +1,26 @@
+import type { KitchenTimer } from '../types';
+import { readStoredTimers } from '../utils/kitchenTimers';
+
+// Kitchen timers outlive a reload: they're saved with their end times, so a
+// timer keeps counting while the page is closed. Small and needed before the
+// first render, so they live in localStorage.
+
+const STORAGE_KEY = 'culinary-vision:kitchen-timers';
+
+export const loadKitchenTimers = (): KitchenTimer[] => {
+    try {
+        return readStoredTimers(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    } catch {
+        return [];
+    }
+};
+
+export const saveKitchenTimers = (timers: KitchenTimer[]): void => {
+    try {
+        if (timers.length === 0) localStorage.removeItem(STORAGE_KEY);
+        else localStorage.setItem(STORAGE_KEY, JSON.stringify(timers));
+    } catch (e) {
+        // Private browsing or a full quota; the timers just won't survive a reload.
+        console.warn("Could not save kitchen timers", e);
+    }
+};
@@ -0,0 +1,105 @@
+import type { MealPlan, MealType, NutritionalInfo, PlannedMeal, Recipe } from '../types';
+import { STORES, withStore } from './db';
+import { normalizeRecipe } from '../utils/ingredients';
+import { sumNutrition } from '../utils/nutrition';
+import { scaleRecipe } from '../utils/scaling';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner'];
+export const DAYS_PER_WEEK = 7;
+const DEFAULT_PLAN_SERVINGS = 2;
+
+export interface MealSlot {
+    // 0 = Monday
+    day: number;
+    meal: MealType;
+}
+
+export const slotKey = (day: number, meal: MealType) => `${day}:${meal}`;
+
+// Weeks are identified by local dates, not UTC, so "this week" matches the user's calendar.
+const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDateString = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+/** The Monday of the week containing `date`, as YYYY-MM-DD. */
+export const weekStartOf = (date: Date = new Date()): string => {
+    const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    return toDateString(monday);
+};
+
+export const shiftWeek = (weekStart: string, weeks: number): string => {
+    const date = parseDateString(weekStart);
+    date.setDate(date.getDate() + weeks * DAYS_PER_WEEK);
+    return toDateString(date);
+};
+
+export const dayDate = (weekStart: string, day: number): Date => {
+    const date = parseDateString(weekStart);
+    date.setDate(date.getDate() + day);
+    return date;
+};
+
+/** "Monday dinner"; also what the AI is told each recipe is for. */
+export const slotLabel = (weekStart: string, { day, meal }: MealSlot): string =>
+    `${dayDate(weekStart, day).toLocaleDateString('en-US', { weekday: 'long' })} ${meal}`;
+
+export const createEmptyPlan = (weekStart: string, servings = DEFAULT_PLAN_SERVINGS): MealPlan => ({
+    weekStart,
+    servings,
+    meals: {},
+    updatedAt: Date.now(),
+});
+
+/** The stored plan for a week, or an empty one if nothing was planned yet. */
+export const getMealPlan = async (weekStart: string): Promise<MealPlan> => {
+    const stored = await withStore(STORES.mealPlans, 'readonly', store => store.get(weekStart) as IDBRequest<MealPlan | undefined>);
+    if (!stored) return createEmptyPlan(weekStart);
+    const meals: Record<string, PlannedMeal> = {};
+    for (const [key, planned] of Object.entries(stored.meals)) {
+        meals[key] = { ...planned, recipe: normalizeRecipe(planned.recipe) };
+    }
+    return { ...stored, meals };
+};
+
+export const saveMealPlan = async (plan: MealPlan): Promise<MealPlan> => {
+    await withStore(STORES.mealPlans, 'readwrite', store => store.put(plan));
+    return plan;
+};
+
+export const getPlannedMeal = (plan: MealPlan, slot: MealSlot): PlannedMeal | undefined =>
+    plan.meals[slotKey(slot.day, slot.meal)];
+
+export const withPlannedMeal = (plan: MealPlan, slot: MealSlot, planned: PlannedMeal | null): MealPlan => {
+    const meals = { ...plan.meals };
+    if (planned) meals[slotKey(slot.day, slot.meal)] = planned;
+    else delete meals[slotKey(slot.day, slot.meal)];
+    return { ...plan, meals, updatedAt: Date.now() };
+};
+
+/** Unplanned slots in day order, breakfast before dinner. */
+export const emptySlots = (plan: MealPlan): MealSlot[] => {
+    const slots: MealSlot[] = [];
+    for (let day = 0; day < DAYS_PER_WEEK; day++) {
+        for (const meal of MEAL_TYPES) {
+            if (!getPlannedMeal(plan, { day, meal })) slots.push({ day, meal });
+        }
+    }
+    return slots;
+};
+
+/** Per-person totals for one day, or null if nothing is planned that day. */
+export const dailyNutrition = (plan: MealPlan, day: number): NutritionalInfo | null => {
+    const meals = MEAL_TYPES
+        .map(meal => getPlannedMeal(plan, { day, meal }))
+        .filter((planned): planned is PlannedMeal => !!planned);
+    return meals.length > 0 ? sumNutrition(meals.map(m => m.recipe.nutritionalInfo)) : null;
+};
+
+/** Every planned recipe scaled to the plan's servings, ready for a shopping list. */
+export const plannedRecipes = (plan: MealPlan): Recipe[] =>
+    Object.values(plan.meals).map(planned => scaleRecipe(planned.recipe, planned.servings, plan.servings));
@@ -0,0 +1,163 @@
+import type { Ingredient, PantryItem, Quantity, Recipe } from '../types';
+import { STORES, withStore } from './db';
+import { formatQuantity, parseQuantity } from '../utils/ingredients';
+import { estimateExpiry, isExpiringSoon } from '../utils/shelfLife';
+import { isOnHand, normalizeItemName } from '../utils/shoppingList';
+import { addQuantities, unitRatio } from '../utils/units';
+
+// What one pantry item looks like after cooking a recipe that uses it
+export interface PantryUse {
+    item: PantryItem;
+    // The item's amount left afterwards, in its own unit; null when the amounts can't be compared
+    remaining: number | null;
+    // Whether the item should be removed from the pantry
+    usedUp: boolean;
+}
+
+// Scanned ingredients carry amount/unit; ones from older scans only have text.
+const quantityOf = (ingredient: Ingredient): Quantity =>
+    ingredient.amount !== undefined
+        ? { amount: ingredient.amount, unit: ingredient.unit ?? null }
+        : parseQuantity(ingredient.quantity);
+
+// Oldest first, so the list reads in the order things went in.
+export const listPantry = async (): Promise<PantryItem[]> => {
+    const all = await withStore(STORES.pantry, 'readonly', store => store.getAll() as IDBRequest<PantryItem[]>);
+    return all.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const savePantryItem = async (item: PantryItem): Promise<PantryItem> => {
+    await withStore(STORES.pantry, 'readwrite', store => store.put(item));
+    return item;
+};
+
+export const deletePantryItem = async (id: string): Promise<void> => {
+    await withStore(STORES.pantry, 'readwrite', store => store.delete(id));
+};
+
+export const createPantryItem = (ingredient: Ingredient, now: number = Date.now()): PantryItem => {
+    const { amount, unit } = quantityOf(ingredient);
+    return {
+        name: ingredient.name.trim(),
+        quantity: ingredient.quantity.trim(),
+        amount,
+        unit,
+        id: crypto.randomUUID(),
+        addedAt: now,
+        updatedAt: now,
+        expiresAt: estimateExpiry(ingredient.name, now),
+    };
+};
+
+// Adds a fresh batch to an existing item. Amounts in comparable units are summed;
+// otherwise both are kept as text ("3 + a handful"). The earlier expiry wins, since
+// the older stock still goes off first, unless the user set the date themselves.
+const mergeItem = (existing: PantryItem, incoming: Ingredient, now: number): PantryItem => {
+    const added = quantityOf(incoming);
+    const sum = addQuantities(quantityOf(existing), added);
+    let next: Pick<PantryItem, 'quantity' | 'amount' | 'unit'>;
+    if (sum) next = { quantity: formatQuantity(sum), amount: sum.amount, unit: sum.unit };
+    else if (!incoming.quantity.trim()) next = { quantity: existing.quantity, amount: existing.amount, unit: existing.unit };
+    else if (!existing.quantity.trim()) next = { quantity: incoming.quantity.trim(), amount: added.amount, unit: added.unit };
+    else next = { quantity: `${existing.quantity} + ${incoming.quantity.trim()}`, amount: null, unit: null };
+
+    const estimate = estimateExpiry(incoming.name, now);
+    const expiresAt = existing.expiryEdited || existing.expiresAt === null || estimate === null
+        ? existing.expiresAt
+        : Math.min(existing.expiresAt, estimate);
+    return { ...existing, ...next, updatedAt: now, expiresAt };
+};
+
+/** `item` with its quantity retyped, re-read into amount and unit. */
+export const withPantryQuantity = (item: PantryItem, text: string): PantryItem => {
+    const { amount, unit } = parseQuantity(text);
+    return { ...item, quantity: text.trim(), amount, unit, updatedAt: Date.now() };
+};
+
+/**
+ * Merges scanned or typed ingredients into the pantry: the same item ("Tomatoes"
+ * and "tomato") is combined with what's there, anything new is added. Only the
+ * items that changed are written; returns the whole updated pantry.
+ */
+export const addToPantry = async (pantry: PantryItem[], incoming: Ingredient[], now: number = Date.now()): Promise<PantryItem[]> => {
+    const items = [...pantry];
+    const changed = new Map<string, PantryItem>();
+    for (const ingredient of incoming) {
+        const key = normalizeItemName(ingredient.name);
+        if (!key) continue;
+        const index = items.findIndex(item => normalizeItemName(item.name) === key);
+        const next = index >= 0 ? mergeItem(items[index], ingredient, now) : createPantryItem(ingredient, now);
+        if (index >= 0) items[index] = next;
+        else items.push(next);
+        changed.set(next.id, next);
+    }
+    await Promise.all([...changed.values()].map(savePantryItem));
+    return items;
+};
+
+const toIngredient = ({ name, quantity, amount, unit }: PantryItem): Ingredient => ({ name, quantity, amount, unit });
+
+/**
+ * The scan plus whatever else is in the pantry. A scanned item replaces its pantry
+ * entry, unless the scan has already been added to the pantry (`scanInPantry`):
+ * then the entry holds the scanned amount plus what was there, so it wins.
+ */
+export const combineWithPantry = (scanned: Ingredient[], pantry: PantryItem[], scanInPantry = false): Ingredient[] => {
+    const byKey = new Map(pantry.map(item => [normalizeItemName(item.name), item]));
+    const scannedKeys = new Set(scanned.map(i => normalizeItemName(i.name)));
+    const fromScan = scanned.map(ingredient => {
+        const entry = scanInPantry ? byKey.get(normalizeItemName(ingredient.name)) : undefined;
+        return entry ? toIngredient(entry) : ingredient;
+    });
+    const extra = pantry
+        .filter(item => !scannedKeys.has(normalizeItemName(item.name)))
+        .map(toIngredient);
+    return [...fromScan, ...extra];
+};
+
+/** Items expiring within a few days (or already expired), soonest first. */
+export const expiringItems = (pantry: PantryItem[], now: number = Date.now()): PantryItem[] =>
+    pantry
+        .filter(item => isExpiringSoon(item.expiresAt, now))
+        .sort((a, b) => a.expiresAt! - b.expiresAt!);
+
+/**
+ * Which pantry items `recipe` uses, and how much of each would be left. Items
+ * whose amounts can't be compared ("a handful" against "200 g") are assumed
+ * used up, as is anything the recipe needs all of.
+ */
+export const pantryUsesFor = (pantry: PantryItem[], recipe: Recipe): PantryUse[] =>
+    pantry.flatMap(item => {
+        const key = normalizeItemName(item.name);
+        const lines = recipe.ingredients.filter(i => isOnHand(normalizeItemName(i.item), [key]));
+        if (!key || lines.length === 0) return [];
+        let remaining: number | null = item.amount ?? null;
+        for (const line of lines) {
+            const ratio = line.amount === null ? null : unitRatio(line.unit, item.unit ?? null);
+            if (remaining === null || ratio === null) {
+                remaining = null;
+                break;
+            }
+            remaining -= line.amount! * ratio;
+        }
+        return [{ item, remaining, usedUp: remaining === null || remaining <= 0 }];
+    });
+
+/** Removes used-up items and reduces the rest; returns the whole updated pantry. */
+export const applyPantryUses = async (pantry: PantryItem[], uses: PantryUse[], now: number = Date.now()): Promise<PantryItem[]> => {
+    const removed = new Set(uses.filter(use => use.usedUp).map(use => use.item.id));
+    const reduced = new Map(
+        uses
+            .filter(use => !use.usedUp && use.remaining !== null && use.remaining > 0)
+            .map((use): [string, PantryItem] => {
+                const amount = use.remaining!;
+                const quantity = formatQuantity({ amount, unit: use.item.unit ?? null });
+                return [use.item.id, { ...use.item, amount, quantity, updatedAt: now }];
+            })
+    );
+    await Promise.all([
+        ...[...removed].map(deletePantryItem),
+        ...[...reduced.values()].map(savePantryItem),
+    ]);
+    return pantry.filter(item => !removed.has(item.id)).map(item => reduced.get(item.id) ?? item);
+};
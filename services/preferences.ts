@@ -0,0 +1,57 @@
+import type { DietaryProfile, NutritionTargets, UnitSystem } from '../types';
+import { EMPTY_PROFILE, readDietaryProfile } from '../utils/allergens';
+import { ALL_NUTRIENTS, DEFAULT_NUTRITION_TARGETS } from '../utils/nutrition';
+
+// Small user settings that are needed synchronously on startup live in
+// localStorage; larger data (recipes, history) lives in IndexedDB.
+
+const STORAGE_KEY = 'culinary-vision:preferences';
+
+export interface Preferences {
+    unitSystem: UnitSystem;
+    // Daily amounts recipe nutrition is shown as a percentage of
+    nutritionTargets: NutritionTargets;
+    // Allergies and diets every recipe request must respect
+    dietaryProfile: DietaryProfile;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+    unitSystem: 'original',
+    nutritionTargets: DEFAULT_NUTRITION_TARGETS,
+    dietaryProfile: EMPTY_PROFILE,
+};
+
+const UNIT_SYSTEMS: UnitSystem[] = ['original', 'metric', 'imperial'];
+
+// Keeps each stored target that's a positive number; the rest fall back to defaults.
+const readTargets = (stored: unknown): NutritionTargets => {
+    const targets = { ...DEFAULT_NUTRITION_TARGETS };
+    if (!stored || typeof stored !== 'object') return targets;
+    for (const key of ALL_NUTRIENTS) {
+        const value = (stored as Record<string, unknown>)[key];
+        if (typeof value === 'number' && Number.isFinite(value) && value > 0) targets[key] = value;
+    }
+    return targets;
+};
+
+export const loadPreferences = (): Preferences => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        return {
+            unitSystem: UNIT_SYSTEMS.includes(stored.unitSystem) ? stored.unitSystem : DEFAULT_PREFERENCES.unitSystem,
+            nutritionTargets: readTargets(stored.nutritionTargets),
+            dietaryProfile: readDietaryProfile(stored.dietaryProfile),
+        };
+    } catch {
+        return { ...DEFAULT_PREFERENCES };
+    }
+};
+
+export const savePreferences = (preferences: Preferences): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch (e) {
+        // Private browsing or a full quota; the setting just won't survive a reload.
+        console.warn("Could not save preferences", e);
+    }
+};
@@ -0,0 +1,75 @@
+import type { GenerationOptions, Ingredient, Recipe, SavedRecipe } from '../types';
+import { STORES, withStore } from './db';
+import { formatRecipeIngredient, normalizeRecipe } from '../utils/ingredients';
+import { readStoredGenerationOptions } from '../utils/generationOptions';
+
+export interface SaveRecipeInput {
+    recipe: Recipe;
+    sourceIngredients: Ingredient[];
+    servings: number;
+    options: GenerationOptions;
+}
+
+export interface RecipeBoxFilter {
+    // Matched against recipe names and ingredient lines
+    query?: string;
+    tag?: string | null;
+    favoritesOnly?: boolean;
+}
+
+// Newest first.
+export const listSavedRecipes = async (): Promise<SavedRecipe[]> => {
+    const all = await withStore(STORES.recipes, 'readonly', store => store.getAll() as IDBRequest<SavedRecipe[]>);
+    return all
+        .map(saved => ({ ...saved, options: readStoredGenerationOptions(saved), recipe: normalizeRecipe(saved.recipe) }))
+        .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const saveRecipe = async (input: SaveRecipeInput): Promise<SavedRecipe> => {
+    const saved: SavedRecipe = {
+        id: crypto.randomUUID(),
+        recipe: input.recipe,
+        sourceIngredients: input.sourceIngredients,
+        servings: input.servings,
+        options: input.options,
+        tags: [],
+        favorite: false,
+        savedAt: Date.now(),
+    };
+    await withStore(STORES.recipes, 'readwrite', store => store.put(saved));
+    return saved;
+};
+
+export const updateSavedRecipe = async (saved: SavedRecipe): Promise<SavedRecipe> => {
+    await withStore(STORES.recipes, 'readwrite', store => store.put(saved));
+    return saved;
+};
+
+export const deleteSavedRecipe = async (id: string): Promise<void> => {
+    await withStore(STORES.recipes, 'readwrite', store => store.delete(id));
+};
+
+// Two recipes are considered the same if name and ingredient list match.
+const recipeKey = (recipe: Recipe) =>
+    `${recipe.recipeName.trim().toLowerCase()}|${recipe.ingredients.map(formatRecipeIngredient).join('|').toLowerCase()}`;
+
+export const findSavedRecipe = (saved: SavedRecipe[], recipe: Recipe): SavedRecipe | undefined => {
+    const key = recipeKey(recipe);
+    return saved.find(s => recipeKey(s.recipe) === key);
+};
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const collectTags = (saved: SavedRecipe[]): string[] =>
+    Array.from(new Set(saved.flatMap(s => s.tags))).sort();
+
+export const filterSavedRecipes = (saved: SavedRecipe[], filter: RecipeBoxFilter): SavedRecipe[] => {
+    const terms = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    return saved.filter(s => {
+        if (filter.favoritesOnly && !s.favorite) return false;
+        if (filter.tag && !s.tags.includes(filter.tag)) return false;
+        if (terms.length === 0) return true;
+        const haystack = [s.recipe.recipeName, ...s.recipe.ingredients.map(formatRecipeIngredient), ...s.tags].join(' ').toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+};
@@ -0,0 +1,105 @@
+// Thin wrappers around the Web Speech API: reading text aloud, and listening
+// for short spoken phrases. Either may be missing (recognition is Chromium and
+// Safari only, and prefixed), so callers check support first.
+
+// The parts of SpeechRecognition used here; TypeScript's DOM types don't include it.
+interface SpeechRecognitionLike extends EventTarget {
+    continuous: boolean;
+    interimResults: boolean;
+    lang: string;
+    onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start(): void;
+    stop(): void;
+    abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const recognitionConstructor = (): SpeechRecognitionConstructor | null => {
+    if (typeof window === 'undefined') return null;
+    const w = window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+    return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+};
+
+export const isSpeechSynthesisSupported = (): boolean =>
+    typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const isSpeechRecognitionSupported = (): boolean => recognitionConstructor() !== null;
+
+/** Reads `text` aloud, cutting off anything still being read. */
+export const speak = (text: string, onEnd?: () => void): void => {
+    if (!isSpeechSynthesisSupported()) return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = navigator.language || 'en-US';
+    if (onEnd) {
+        utterance.onend = () => onEnd();
+        utterance.onerror = () => onEnd();
+    }
+    window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = (): void => {
+    if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+};
+
+export const isSpeaking = (): boolean =>
+    isSpeechSynthesisSupported() && window.speechSynthesis.speaking;
+
+export interface PhraseListener {
+    stop: () => void;
+}
+
+// Recognition errors that mean listening can't go on; the rest (silence, a
+// dropped network request) are retried by restarting.
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported']);
+
+/**
+ * Listens until stopped, passing each finished phrase to `onPhrase`. Browsers end
+ * recognition after a pause, so it's restarted until `stop` is called or a fatal
+ * error (such as a refused microphone) is reported through `onError`.
+ */
+export const listenForPhrases = (onPhrase: (phrase: string) => void, onError: (message: string) => void): PhraseListener => {
+    const Recognition = recognitionConstructor();
+    if (!Recognition) {
+        onError("Voice commands aren't supported in this browser.");
+        return { stop: () => {} };
+    }
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.lang = navigator.language || 'en-US';
+    let stopped = false;
+
+    recognition.onresult = event => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+            const result = event.results[i];
+            if (result.isFinal && result[0]?.transcript.trim()) onPhrase(result[0].transcript);
+        }
+    };
+    recognition.onerror = event => {
+        if (!FATAL_ERRORS.has(event.error)) return;
+        stopped = true;
+        onError(event.error === 'not-allowed' || event.error === 'service-not-allowed'
+            ? "Microphone access was refused."
+            : "Voice commands stopped working.");
+    };
+    recognition.onend = () => {
+        if (stopped) return;
+        try {
+            recognition.start();
+        } catch {
+            // Already restarting
+        }
+    };
+    recognition.start();
+
+    return {
+        stop: () => {
+            stopped = true;
+            recognition.abort();
+        },
+    };
+};
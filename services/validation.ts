@@ -0,0 +1,297 @@
+import type { Ingredient, NutritionalInfo, Recipe, RecipeIngredient, Substitute } from '../types';
+import { formatQuantity, normalizeUnit, parseIngredientLine, parseQuantity } from '../utils/ingredients';
+import { CORE_NUTRIENTS, normalizeNutrition } from '../utils/nutrition';
+
+// Model output is only loosely shaped by the response schema, so everything coming back
+// from the API is checked against types.ts here. Fixable problems (numbers instead of
+// strings, a missing nutrition block, a comma-separated string instead of an array) are
+// repaired; items that can't be salvaged are dropped and the reason is logged.
+
+export type ValidationErrorCode = 'MALFORMED_RESPONSE' | 'NO_VALID_ITEMS' | 'PROFILE_CONFLICT' | 'NO_NEW_ITEMS';
+
+export class ResponseValidationError extends Error {
+    constructor(
+        public readonly code: ValidationErrorCode,
+        message: string,
+        public readonly issues: string[] = [],
+    ) {
+        super(message);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+export interface ValidationResult<T> {
+    value: T;
+    // Human-readable notes about repairs made and items dropped.
+    issues: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | null => {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return null;
+};
+
+// Splits on commas outside parentheses and not between digits, so "2 eggs,
+// 1 cup milk" splits but "1,000 g flour (sifted, fine)" doesn't.
+const splitOnCommas = (text: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '(') depth++;
+        else if (char === ')') depth = Math.max(0, depth - 1);
+        else if (char === ',' && depth === 0 && !(/\d/.test(text[i - 1] ?? '') && /\d/.test(text[i + 1] ?? ''))) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts;
+};
+
+interface ListOptions {
+    // Key an object may wrap the array under
+    key?: string;
+    // Whether a single line of text may be a comma-separated list; not for
+    // instructions, where commas are part of the sentence
+    commas?: boolean;
+    // Where to note a repair, and what the list is called there
+    issues?: string[];
+    label?: string;
+}
+
+// For messages: `typeof` calls null and arrays "object".
+const describeType = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+// Names must be text: a number where a name belongs means a broken item, not one called "5".
+const asName = (value: unknown): string | null => typeof value === 'string' ? value.trim() : null;
+
+// Accepts an array, a JSON-encoded array, a newline/semicolon (or, where
+// allowed, comma) separated string, or an object wrapping the array under `key`.
+const toArray = (value: unknown, options: ListOptions = {}): unknown[] | null => {
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'string') {
+        const trimmed = value.trim();
+        if (trimmed.startsWith('[')) {
+            try {
+                const parsed = JSON.parse(trimmed);
+                if (Array.isArray(parsed)) return parsed;
+            } catch {
+                // Fall through to splitting.
+            }
+        }
+        if (!trimmed) return [];
+        const lines = trimmed.split(/\n|;/);
+        const parts = lines.length === 1 && options.commas ? splitOnCommas(trimmed) : lines;
+        const items = parts.map(s => s.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean);
+        options.issues?.push(`${options.label ?? 'List'}: got text instead of a list, split it into ${items.length} item(s).`);
+        return items;
+    }
+    if (isRecord(value)) {
+        if (options.key && options.key in value) return toArray(value[options.key], { ...options, key: undefined });
+        // A lone object where a list was expected.
+        return [value];
+    }
+    return null;
+};
+
+// Turns list entries that came back as objects (e.g. { step: "..." } or
+// { name, quantity }) into plain strings.
+const toStringList = (value: unknown, options: ListOptions = {}): string[] => {
+    const items = toArray(value, options) ?? [];
+    return items
+        .map(item => {
+            const text = asString(item);
+            if (text !== null) return text;
+            if (isRecord(item)) {
+                const direct = asString(item.text ?? item.step ?? item.instruction ?? item.description);
+                if (direct) return direct;
+                const name = asString(item.name ?? item.item);
+                const quantity = asString(item.quantity ?? item.amount);
+                if (name) return quantity ? `${quantity} ${name}` : name;
+            }
+            return '';
+        })
+        .filter(Boolean);
+};
+
+const asAmount = (value: unknown): number | null => {
+    if (typeof value === 'number') return isFinite(value) && value > 0 ? value : null;
+    if (typeof value === 'string' && value.trim()) return parseQuantity(value).amount;
+    return null;
+};
+
+// Recipe ingredients may arrive structured ({ item, amount, unit, note }), as
+// structured-ish objects with odd keys, or as legacy free-text lines.
+const toRecipeIngredient = (value: unknown): RecipeIngredient | null => {
+    const text = asString(value);
+    if (text !== null) return text ? parseIngredientLine(text) : null;
+    if (!isRecord(value)) return null;
+
+    const item = asString(value.item ?? value.name ?? value.ingredient);
+    if (!item) {
+        const line = asString(value.text ?? value.original);
+        return line ? parseIngredientLine(line) : null;
+    }
+    // Only a free-text quantity ("2 tbsp"): parse it.
+    if (value.amount === undefined && typeof value.quantity === 'string') {
+        const quantity = parseQuantity(value.quantity);
+        return { ...quantity, item, ...(asString(value.note) && { note: asString(value.note)! }) };
+    }
+    const amountMax = asAmount(value.amountMax);
+    const note = asString(value.note);
+    return {
+        item,
+        amount: asAmount(value.amount ?? value.quantity),
+        ...(amountMax !== null && { amountMax }),
+        unit: normalizeUnit(asString(value.unit)),
+        ...(note && { note }),
+    };
+};
+
+const toRecipeIngredientList = (value: unknown, options: ListOptions = {}): RecipeIngredient[] =>
+    (toArray(value, { ...options, commas: true }) ?? [])
+        .map(toRecipeIngredient)
+        .filter((item): item is RecipeIngredient => item !== null);
+
+const repairNutrition = (value: unknown, issues: string[], label: string): NutritionalInfo => {
+    if (!isRecord(value)) {
+        issues.push(`${label}: missing nutritional info, filled with placeholders.`);
+        return normalizeNutrition({});
+    }
+    const info = normalizeNutrition(value);
+    const unreadable = CORE_NUTRIENTS.filter(key => info[key].value === null);
+    if (unreadable.length > 0) {
+        issues.push(`${label}: no usable value for ${unreadable.join(', ')}.`);
+    }
+    return info;
+};
+
+const validateIngredient = (value: unknown, index: number, issues: string[]): Ingredient | null => {
+    if (typeof value === 'string') {
+        if (!value.trim()) return null;
+        issues.push(`Ingredient #${index + 1}: got plain text "${value.trim()}", kept it as a name without a quantity.`);
+        return { name: value.trim(), quantity: '' };
+    }
+    if (!isRecord(value)) {
+        issues.push(`Ingredient #${index + 1} dropped: expected an object, got ${describeType(value)}.`);
+        return null;
+    }
+    const name = asName(value.name ?? value.item);
+    if (!name) {
+        issues.push(`Ingredient #${index + 1} dropped: missing name.`);
+        return null;
+    }
+    const quantityText = asString(value.quantity) ?? '';
+    const amount = asAmount(value.amount);
+    // Prefer the model's structured amount; fall back to parsing its text.
+    const parsed = amount !== null
+        ? { amount, unit: normalizeUnit(asString(value.unit)) }
+        : parseQuantity(quantityText);
+    return {
+        name,
+        quantity: quantityText || (parsed.amount !== null ? formatQuantity(parsed) : ''),
+        amount: parsed.amount,
+        unit: parsed.unit,
+    };
+};
+
+const validateRecipe = (value: unknown, index: number, issues: string[]): Recipe | null => {
+    if (!isRecord(value)) {
+        issues.push(`Recipe #${index + 1} dropped: expected an object, got ${describeType(value)}.`);
+        return null;
+    }
+    const recipeName = asName(value.recipeName ?? value.name ?? value.title);
+    if (!recipeName) {
+        issues.push(`Recipe #${index + 1} dropped: missing name.`);
+        return null;
+    }
+    const ingredients = toRecipeIngredientList(value.ingredients, { issues, label: `Recipe "${recipeName}" ingredients` });
+    const instructions = toStringList(value.instructions ?? value.steps, { issues, label: `Recipe "${recipeName}" instructions` });
+    if (ingredients.length === 0 || instructions.length === 0) {
+        issues.push(`Recipe "${recipeName}" dropped: no ${ingredients.length === 0 ? 'ingredients' : 'instructions'}.`);
+        return null;
+    }
+    return {
+        recipeName,
+        description: asString(value.description) ?? '',
+        // A bare number is almost always minutes.
+        prepTime: typeof value.prepTime === 'number' ? `${value.prepTime} mins` : asString(value.prepTime) || 'N/A',
+        ingredients,
+        instructions,
+        nutritionalInfo: repairNutrition(value.nutritionalInfo, issues, `Recipe "${recipeName}"`),
+    };
+};
+
+const validateList = <T>(
+    data: unknown,
+    key: string,
+    label: string,
+    validateItem: (value: unknown, index: number, issues: string[]) => T | null,
+    commas = false,
+): ValidationResult<T[]> => {
+    const issues: string[] = [];
+    const items = toArray(data, { key, commas, issues, label: label[0].toUpperCase() + label.slice(1) });
+    if (items === null) {
+        throw new ResponseValidationError('MALFORMED_RESPONSE', `The AI returned an unreadable list of ${label}. Please try again.`);
+    }
+    const value = items
+        .map((item, index) => validateItem(item, index, issues))
+        .filter((item): item is T => item !== null);
+
+    if (issues.length > 0) {
+        console.warn(`Repaired AI ${label} response:`, issues);
+    }
+    return { value, issues };
+};
+
+const validateSubstitute = (value: unknown, index: number, issues: string[]): Substitute | null => {
+    if (typeof value === 'string') {
+        if (!value.trim()) return null;
+        issues.push(`Substitute #${index + 1}: got plain text "${value.trim()}", assumed the same amount.`);
+        return { item: value.trim(), ratio: 1 };
+    }
+    if (!isRecord(value)) {
+        issues.push(`Substitute #${index + 1} dropped: expected an object, got ${describeType(value)}.`);
+        return null;
+    }
+    const item = asName(value.item ?? value.name ?? value.substitute);
+    if (!item) {
+        issues.push(`Substitute #${index + 1} dropped: missing name.`);
+        return null;
+    }
+    const ratio = asAmount(value.ratio);
+    if (ratio === null) {
+        issues.push(`Substitute "${item}": no usable ratio, assumed the same amount.`);
+    }
+    const unit = normalizeUnit(asString(value.unit));
+    const note = asString(value.note);
+    return {
+        item,
+        ratio: ratio ?? 1,
+        ...(unit && { unit }),
+        ...(note && { note }),
+    };
+};
+
+export const validateSubstitutes = (data: unknown): ValidationResult<Substitute[]> =>
+    validateList(data, 'substitutes', 'substitutes', validateSubstitute, true);
+
+export const validateIngredients = (data: unknown): ValidationResult<Ingredient[]> =>
+    validateList(data, 'ingredients', 'ingredients', validateIngredient, true);
+
+/** Validates a single recipe, e.g. one element of a streamed response. */
+export const validateRecipeItem = (data: unknown, index: number): ValidationResult<Recipe | null> => {
+    const issues: string[] = [];
+    const value = validateRecipe(data, index, issues);
+    if (issues.length > 0) {
+        console.warn(`Repaired AI recipe #${index + 1}:`, issues);
+    }
+    return { value, issues };
+};
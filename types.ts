@@ -7,25 +7,255 @@ export enum LoadingState {
   FETCHING_RECIPES,
   SHOWING_RESULTS,
   ERROR,
+  RECIPE_BOX,
+  HISTORY,
+  SHOPPING_LIST,
+  MEAL_PLAN,
+  PROFILE,
+  PANTRY,
 }
 
+// A measured amount. `amount` is null for vague quantities ("a little", "to taste").
+export interface Quantity {
+  amount: number | null;
+  // Upper bound for ranges such as "2-3 cloves"
+  amountMax?: number | null;
+  // Canonical unit id ('g', 'cup', 'tbsp', 'clove'...), or null for plain counts
+  unit: string | null;
+  // Free-text remainder: vague wording, preparation or size notes
+  note?: string;
+}
+
+// 'original' shows quantities as the recipe wrote them
+export type UnitSystem = 'original' | 'metric' | 'imperial';
+
 export interface Ingredient {
   name: string;
+  // Display text as identified or typed, e.g. "200g" or "a handful"
   quantity: string;
+  // Structured form of `quantity` when it could be parsed
+  amount?: number | null;
+  unit?: string | null;
+}
+
+// An ingredient kept in the pantry between scans
+export interface PantryItem extends Ingredient {
+  id: string;
+  addedAt: number;
+  updatedAt: number;
+  // Estimated (or user-set) time it goes off; null for items that keep
+  expiresAt: number | null;
+  // The user set `expiresAt` themselves, so later merges leave it alone
+  expiryEdited?: boolean;
+}
+
+export interface RecipeIngredient extends Quantity {
+  item: string;
 }
 
+export type NutrientUnit = 'kcal' | 'g' | 'mg';
+
+// Always in the nutrient's canonical unit: kcal for energy, mg for sodium, g otherwise
+export interface NutrientAmount {
+  // null when the model gave nothing usable
+  value: number | null;
+  unit: NutrientUnit;
+}
+
+// Per serving
 export interface NutritionalInfo {
-  calories: string;
-  protein: string;
-  carbs: string;
-  fat: string;
+  calories: NutrientAmount;
+  protein: NutrientAmount;
+  carbs: NutrientAmount;
+  fat: NutrientAmount;
+  fiber?: NutrientAmount;
+  sugar?: NutrientAmount;
+  sodium?: NutrientAmount;
 }
 
+export type NutrientKey = keyof NutritionalInfo;
+
+// Daily amounts per person, in each nutrient's canonical unit
+export type NutritionTargets = Record<NutrientKey, number>;
+
 export interface Recipe {
   recipeName: string;
   description: string;
-  ingredients: string[];
+  ingredients: RecipeIngredient[];
   instructions: string[];
   nutritionalInfo: NutritionalInfo;
   prepTime: string;
 }
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export interface PlannedMeal {
+  recipe: Recipe;
+  // Servings the recipe's quantities are written for
+  servings: number;
+  // Set when the meal was picked from the recipe box
+  savedRecipeId?: string;
+}
+
+// One week of meals; stored per week
+export interface MealPlan {
+  // Local date (YYYY-MM-DD) of the Monday the week starts on
+  weekStart: string;
+  // People the plan cooks for; meals are scaled to this for shopping
+  servings: number;
+  // Keyed by `${day}:${meal}`, with day 0 = Monday
+  meals: Record<string, PlannedMeal>;
+  updatedAt: number;
+}
+
+export type Allergen = 'peanuts' | 'tree-nuts' | 'shellfish' | 'fish' | 'dairy' | 'eggs' | 'gluten' | 'soy' | 'sesame';
+
+export type Diet = 'vegetarian' | 'vegan' | 'pescatarian' | 'gluten-free' | 'dairy-free' | 'keto' | 'paleo';
+
+// Hard restrictions applied to every recipe request
+export interface DietaryProfile {
+  allergens: Allergen[];
+  diets: Diet[];
+  // Anything else never to use, as typed ("cilantro", "mushrooms")
+  avoid: string[];
+}
+
+export type Course = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'side' | 'dessert';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// What the user asked for on the home screen; empty lists and nulls mean "any"
+export interface GenerationOptions {
+  // How many recipes to ask for (ignored for meal-plan fills, which ask for one per slot)
+  count: number;
+  cuisines: string[];
+  diets: Diet[];
+  course: Course | null;
+  maxPrepMinutes: number | null;
+  difficulty: Difficulty | null;
+  // Every recipe must make use of these ("air fryer", "slow cooker")
+  equipment: string[];
+}
+
+// The parts of a recipe sent back to ask for variations of it
+export interface RecipeSeed {
+  recipeName: string;
+  description: string;
+  ingredients: string[];
+}
+
+// Everything the server needs to generate a batch of recipes
+export interface RecipeRequest {
+  ingredients: Ingredient[];
+  servings: number;
+  options: GenerationOptions;
+  profile?: DietaryProfile;
+  // Names of recipes already shown, which the new ones must not repeat
+  exclude?: string[];
+  // "More like this": variations of one recipe instead of fresh ideas
+  variationOf?: RecipeSeed;
+  // Meal-plan fill: one recipe per slot label ("Monday dinner"), in order
+  mealSlots?: string[];
+  // Names of available ingredients close to expiry, to be used first
+  expiring?: string[];
+}
+
+// Asks for a changed version of one recipe ("make it spicier", "no oven")
+export interface RecipeRefinementRequest {
+  recipe: Recipe;
+  instruction: string;
+  // Earlier instructions already applied to `recipe`, oldest first
+  previousInstructions: string[];
+  servings: number;
+  profile?: DietaryProfile;
+}
+
+// One version of a recipe in a refinement chat
+export interface RecipeRevision {
+  recipe: Recipe;
+  // What the user asked for to get this version; absent for the original
+  instruction?: string;
+}
+
+// Every version of a refined recipe, oldest first; `current` is the one shown
+export interface RecipeRevisions {
+  versions: RecipeRevision[];
+  current: number;
+}
+
+// A stand-in for an ingredient the user doesn't have
+export interface Substitute {
+  item: string;
+  // Amount of the substitute per unit of the original (0.5 = half as much)
+  ratio: number;
+  // Replaces the original unit when the substitute is measured differently (cloves of garlic → tsp of powder)
+  unit?: string | null;
+  // How to use it, e.g. "1 tbsp lemon juice per cup of milk, left for 5 minutes"
+  note?: string;
+}
+
+// Asks the AI for substitutes for one ingredient line of a recipe
+export interface SubstitutionRequest {
+  recipeName: string;
+  // The line to replace, as displayed ("1 cup buttermilk")
+  ingredient: string;
+  // The recipe's other ingredients, for context
+  otherIngredients: string[];
+  // What the user has, which suggestions should prefer
+  available: string[];
+  profile?: DietaryProfile;
+}
+
+// AI substitute ideas for one ingredient line, while they load and once they arrive
+export interface SubstituteSuggestions {
+  line: number;
+  substitutes: Substitute[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export type KitchenTimerStatus = 'running' | 'paused' | 'done';
+
+// A countdown started from a recipe step; several can run at once
+export interface KitchenTimer {
+  id: string;
+  // What it's for, e.g. "Boil the pasta"
+  label: string;
+  recipeName: string;
+  // 0-based step that started it; null when started some other way
+  step: number | null;
+  durationSeconds: number;
+  // When a running timer runs out (epoch ms), so it can't drift; null unless running
+  endsAt: number | null;
+  // Time that was left when it was paused (ms); 0 once done
+  pausedRemainingMs: number;
+  // For a range ("20-25 minutes"), how far in to check on it; null otherwise
+  checkAfterSeconds: number | null;
+  // Whether that check reminder has gone off since the timer last (re)started
+  checkDue: boolean;
+  status: KitchenTimerStatus;
+}
+
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  // What the recipe was generated from
+  sourceIngredients: Ingredient[];
+  servings: number;
+  options: GenerationOptions;
+  tags: string[];
+  favorite: boolean;
+  savedAt: number;
+}
+
+// One completed capture → review → results run
+export interface HistoryEntry {
+  id: string;
+  // Small JPEG data URLs of the scanned photos
+  thumbnails: string[];
+  ingredients: Ingredient[];
+  servings: number;
+  options: GenerationOptions;
+  recipes: Recipe[];
+  createdAt: number;
+}
@@ -0,0 +1,229 @@
+import type { Allergen, Diet, DietaryProfile, Recipe } from '../types';
+import { normalizeItemName } from './shoppingList';
+
+// Local check of generated recipes against the user's dietary profile. The
+// prompt already states the restrictions, but models slip ("a knob of butter"
+// in a vegan curry), so every ingredient is matched against a dictionary of
+// allergen and diet keywords before a recipe is shown.
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+    peanuts: 'Peanuts',
+    'tree-nuts': 'Tree nuts',
+    shellfish: 'Shellfish',
+    fish: 'Fish',
+    dairy: 'Dairy',
+    eggs: 'Eggs',
+    gluten: 'Gluten',
+    soy: 'Soy',
+    sesame: 'Sesame',
+};
+
+export const DIET_LABELS: Record<Diet, string> = {
+    vegetarian: 'Vegetarian',
+    vegan: 'Vegan',
+    pescatarian: 'Pescatarian',
+    'gluten-free': 'Gluten-free',
+    'dairy-free': 'Dairy-free',
+    keto: 'Keto',
+    paleo: 'Paleo',
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+export const DIETS = Object.keys(DIET_LABELS) as Diet[];
+
+export const EMPTY_PROFILE: DietaryProfile = { allergens: [], diets: [], avoid: [] };
+
+// Keeps typed entries to something sensible to put in a prompt.
+const MAX_AVOID_ITEMS = 30;
+const MAX_AVOID_LENGTH = 60;
+
+/** Reads a stored or posted profile, dropping anything unrecognised. */
+export const readDietaryProfile = (raw: unknown): DietaryProfile => {
+    if (!raw || typeof raw !== 'object') return { ...EMPTY_PROFILE };
+    const { allergens, diets, avoid } = raw as Record<string, unknown>;
+    const pick = <T extends string>(value: unknown, known: T[]): T[] =>
+        Array.isArray(value) ? known.filter(k => value.includes(k)) : [];
+    return {
+        allergens: pick(allergens, ALLERGENS),
+        diets: pick(diets, DIETS),
+        avoid: Array.isArray(avoid)
+            ? avoid
+                .filter((a): a is string => typeof a === 'string' && a.trim().length > 0)
+                .map(a => a.trim().slice(0, MAX_AVOID_LENGTH))
+                .slice(0, MAX_AVOID_ITEMS)
+            : [],
+    };
+};
+
+export const isEmptyProfile = (profile: DietaryProfile): boolean =>
+    profile.allergens.length === 0 && profile.diets.length === 0 && profile.avoid.length === 0;
+
+// --- Dictionary -------------------------------------------------------------
+
+interface Rule {
+    match: RegExp;
+    // Removed before matching: look-alikes that don't count ("coconut milk", "nutmeg")
+    except?: RegExp;
+}
+
+// "vegan butter", "plant-based mince", "mock duck": substitutes, not the real thing
+const SUBSTITUTE = String.raw`\b(?:vegan|vegetarian|plant[- ]based|meat[- ]free|meatless|mock|faux)\b.*`;
+// "gluten-free soy sauce", "dairy-free milk": the rest of the name is a safe version
+const freeOf = (...words: string[]) => String.raw`\b(?:${words.join('|')})[- ]free\b.*`;
+const except = (...patterns: string[]) => new RegExp(patterns.join('|'), 'g');
+
+const MEAT: Rule = {
+    match: /\b(meat|chicken|beef|pork|lamb|mutton|veal|venison|goat|duck|goose|turkey|rabbit|bacon|ham|prosciutto|pancetta|guanciale|salami|pepperoni|chorizo|sausages?|hot dogs?|mince|steak|brisket|ribs?|oxtail|liver|lard|suet|tallow|gelatine?|bone broth)\b/,
+    except: except(SUBSTITUTE, String.raw`\bcoconut meat\b|\bcelery ribs?\b|\b(?:cauliflower|mushroom) steaks?\b|\bgoat(?:'s)? (?:cheese|milk)\b`),
+};
+
+const ALLERGEN_RULES: Record<Allergen, Rule> = {
+    peanuts: {
+        match: /\b(peanuts?|groundnuts?|satay)\b/,
+        except: except(freeOf('peanut', 'nut')),
+    },
+    'tree-nuts': {
+        match: /\b(almonds?|walnuts?|cashews?|pecans?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?|chestnuts?|nuts|praline|marzipan|frangipane|nutella|pesto|amaretto)\b/,
+        except: except(freeOf('nut', 'tree nut'), String.raw`\b(?:water chestnuts?|peanuts?)\b`),
+    },
+    shellfish: {
+        match: /\b(shrimps?|prawns?|crabs?|crabmeat|lobsters?|crayfish|crawfish|langoustines?|scallops?|mussels?|clams?|oysters?|squid|calamari|octopus|cuttlefish|shellfish|seafood)\b/,
+        except: except(SUBSTITUTE, freeOf('shellfish'), String.raw`\boyster mushrooms?\b|\bcrab ?apples?\b`),
+    },
+    fish: {
+        match: /\b(fish|salmon|tuna|cod|haddock|pollock|hake|halibut|tilapia|trout|mackerel|sardines?|anchov(?:y|ies)|herring|sea bass|snapper|swordfish|catfish|monkfish|bonito|dashi|worcestershire|caesar dressing|nam pla)\b/,
+        except: except(SUBSTITUTE, freeOf('fish')),
+    },
+    dairy: {
+        match: /\b(milk|buttermilk|butter|cheeses?|cheddar|mozzarella|parmesan|parmigiano|pecorino|feta|ricotta|mascarpone|gouda|gruyere|brie|camembert|halloumi|paneer|cream|creme fraiche|yogh?urts?|ghee|whey|casein|custard|kefir|quark|queso)\b/,
+        except: except(
+            SUBSTITUTE,
+            freeOf('dairy', 'lactose', 'milk'),
+            String.raw`\b(?:coconut|almond|oat|soy|soya|rice|cashew|hemp|peanut|nut|cocoa|apple|shea|seed) (?:milk|cream|butter|yogh?urt)\b`,
+            String.raw`\bbutter (?:beans?|lettuce)\b|\bcream of tartar\b`,
+        ),
+    },
+    eggs: {
+        match: /\b(eggs?|yolks?|egg whites?|mayonnaise|mayo|meringue|aioli|eggnog|hollandaise|bearnaise)\b/,
+        except: except(SUBSTITUTE, freeOf('egg')),
+    },
+    gluten: {
+        match: /\b(wheat|flour|breads?|breadcrumbs?|bread crumbs|panko|pasta|spaghetti|linguine|fettuccine|penne|macaroni|lasagne?|lasagna|noodles?|ramen|udon|couscous|bulgur|bulgar|barley|rye|semolina|farro|spelt|seitan|soy sauce|teriyaki|beer|malt|tortillas?|pitas?|naan|croutons?|crackers?|baguette|buns?|brioche|pastry|pie crust|phyllo|filo|wraps?|dumplings?|gnocchi|orzo|biscuits?|cookies?)\b/,
+        except: except(
+            freeOf('gluten', 'wheat'),
+            String.raw`\b(?:rice|almond|coconut|corn|chickpea|gram|buckwheat|tapioca|potato|cassava|sorghum|millet|teff|quinoa|arrowroot|lettuce) (?:flour|noodles?|pasta|tortillas?|wraps?|crackers?)\b`,
+            String.raw`\brice paper\b|\btamari\b`,
+        ),
+    },
+    soy: {
+        match: /\b(soy|soya|soybeans?|tofu|tempeh|edamame|miso|tamari|teriyaki|natto)\b/,
+        except: except(freeOf('soy')),
+    },
+    sesame: {
+        match: /\b(sesame|tahini|hummus|houmous|za'?atar|halva|gomasio)\b/,
+        except: except(freeOf('sesame')),
+    },
+};
+
+const ANIMAL_PRODUCTS: Rule = {
+    match: /\b(honey|bee pollen|royal jelly)\b/,
+    except: except(SUBSTITUTE),
+};
+
+const HIGH_CARB: Rule = {
+    match: /\b(sugar|flour|breads?|pasta|spaghetti|noodles?|rice|potato(?:es)?|oats|oatmeal|quinoa|couscous|corn|cornstarch|tortillas?|honey|syrup|beans|lentils|chickpeas|bananas?|dates|raisins)\b/,
+    except: except(
+        freeOf('sugar', 'carb'),
+        String.raw`\b(?:almond|coconut) flour\b|\bcauliflower rice\b|\briced cauliflower\b|\bgreen beans?\b|\bsoy ?beans?\b|\bbaby corn\b|\brice (?:vinegar|wine)\b|\bsugar snap\b`,
+    ),
+};
+
+// Paleo: no grains, legumes, refined sugar or dairy (ghee is the usual exception).
+const PALEO_EXCLUDED: Rule[] = [
+    ALLERGEN_RULES.gluten,
+    ALLERGEN_RULES.peanuts,
+    ALLERGEN_RULES.soy,
+    { ...ALLERGEN_RULES.dairy, except: except(ALLERGEN_RULES.dairy.except!.source, String.raw`\bghee\b`) },
+    {
+        match: /\b(rice|oats|oatmeal|corn|cornstarch|quinoa|beans|lentils|chickpeas|sugar|margarine|canola oil|vegetable oil)\b/,
+        except: except(String.raw`\b(?:coconut|maple|date) sugar\b|\bcauliflower rice\b|\bgreen beans?\b|\brice (?:vinegar|wine)\b|\bsugar snap\b|\bsugar[- ]free\b.*`),
+    },
+];
+
+const DIET_RULES: Record<Diet, Rule[]> = {
+    vegetarian: [MEAT, ALLERGEN_RULES.fish, ALLERGEN_RULES.shellfish],
+    vegan: [MEAT, ALLERGEN_RULES.fish, ALLERGEN_RULES.shellfish, ALLERGEN_RULES.dairy, ALLERGEN_RULES.eggs, ANIMAL_PRODUCTS],
+    pescatarian: [MEAT],
+    'gluten-free': [ALLERGEN_RULES.gluten],
+    'dairy-free': [ALLERGEN_RULES.dairy],
+    keto: [HIGH_CARB],
+    paleo: PALEO_EXCLUDED,
+};
+
+// Net carbs per serving above which a recipe isn't keto, whatever its ingredients.
+const KETO_MAX_NET_CARBS = 20;
+
+// Lowercase, accents stripped ("crème fraîche" → "creme fraiche"), asides dropped.
+const searchableName = (item: string) =>
+    item
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\([^)]*\)/g, ' ');
+
+const breaksRule = (name: string, rule: Rule) =>
+    rule.match.test(rule.except ? name.replace(rule.except, ' ') : name);
+
+// --- Checking ---------------------------------------------------------------
+
+export interface DietaryConflict {
+    kind: 'allergen' | 'diet' | 'avoid';
+    // What the recipe breaks: "Dairy", "Vegan", "cilantro"
+    label: string;
+    // The ingredient responsible, or a note such as "32 g net carbs per serving"
+    ingredient: string;
+}
+
+/** Every way `recipe` breaks `profile`, one entry per rule and ingredient. */
+export const findDietaryConflicts = (recipe: Recipe, profile: DietaryProfile): DietaryConflict[] => {
+    if (isEmptyProfile(profile)) return [];
+    const conflicts: DietaryConflict[] = [];
+    const avoidKeys = profile.avoid.map(a => ({ label: a, key: normalizeItemName(a) })).filter(a => a.key);
+
+    for (const { item } of recipe.ingredients) {
+        const name = searchableName(item);
+        for (const allergen of profile.allergens) {
+            if (breaksRule(name, ALLERGEN_RULES[allergen])) {
+                conflicts.push({ kind: 'allergen', label: ALLERGEN_LABELS[allergen], ingredient: item });
+            }
+        }
+        for (const diet of profile.diets) {
+            if (DIET_RULES[diet].some(rule => breaksRule(name, rule))) {
+                conflicts.push({ kind: 'diet', label: DIET_LABELS[diet], ingredient: item });
+            }
+        }
+        const itemKey = ` ${normalizeItemName(item)} `;
+        for (const avoid of avoidKeys) {
+            if (itemKey.includes(` ${avoid.key} `)) {
+                conflicts.push({ kind: 'avoid', label: avoid.label, ingredient: item });
+            }
+        }
+    }
+
+    if (profile.diets.includes('keto')) {
+        const { carbs, fiber } = recipe.nutritionalInfo;
+        const netCarbs = carbs.value === null ? null : carbs.value - (fiber?.value ?? 0);
+        if (netCarbs !== null && netCarbs > KETO_MAX_NET_CARBS) {
+            conflicts.push({ kind: 'diet', label: DIET_LABELS.keto, ingredient: `${Math.round(netCarbs)} g net carbs per serving` });
+        }
+    }
+    return conflicts;
+};
+
+/**
+ * Allergens and avoided ingredients are hard limits: recipes containing them
+ * are dropped. Diet breaches are only flagged, since keyword checks for diets
+ * like keto or paleo are a judgement call.
+ */
+export const isRejectedByProfile = (conflicts: DietaryConflict[]): boolean =>
+    conflicts.some(c => c.kind !== 'diet');
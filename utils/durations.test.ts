@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { describeDuration, findDurations, parseDuration } from './durations';
+
+const seconds = (text: string) => findDurations(text).map(found => [found.seconds, found.maxSeconds]);
+
+describe('parseDuration', () => {
+    it('reads digits, fractions and number words', () => {
+        expect(parseDuration('10 minutes')).toEqual({ seconds: 600, maxSeconds: null });
+        expect(parseDuration('ten minutes')).toEqual({ seconds: 600, maxSeconds: null });
+        expect(parseDuration('forty-five minutes')).toEqual({ seconds: 2700, maxSeconds: null });
+        expect(parseDuration('1½ hours')).toEqual({ seconds: 5400, maxSeconds: null });
+        expect(parseDuration('1 1/2 hours')).toEqual({ seconds: 5400, maxSeconds: null });
+        expect(parseDuration('half an hour')).toEqual({ seconds: 1800, maxSeconds: null });
+        expect(parseDuration('a couple of minutes')).toEqual({ seconds: 120, maxSeconds: null });
+    });
+
+    it('adds up compound durations', () => {
+        expect(parseDuration('1 hour 30 minutes')).toEqual({ seconds: 5400, maxSeconds: null });
+        expect(parseDuration('1 hr, 15 min')).toEqual({ seconds: 4500, maxSeconds: null });
+        expect(parseDuration('an hour and a half')).toEqual({ seconds: 5400, maxSeconds: null });
+    });
+
+    it('reads ranges', () => {
+        expect(parseDuration('20-25 minutes')).toEqual({ seconds: 1200, maxSeconds: 1500 });
+        expect(parseDuration('1 to 1½ hours')).toEqual({ seconds: 3600, maxSeconds: 5400 });
+        expect(parseDuration('a minute or two')).toEqual({ seconds: 60, maxSeconds: 120 });
+        expect(parseDuration('45 minutes to 1 hour')).toEqual({ seconds: 2700, maxSeconds: 3600 });
+        expect(parseDuration('overnight')).toEqual({ seconds: 8 * 3600, maxSeconds: 12 * 3600 });
+    });
+
+    it('rejects anything that is not a whole duration', () => {
+        expect(parseDuration('a minute later')).toBeNull();
+        expect(parseDuration('10 minutes, then stir')).toBeNull();
+        expect(parseDuration('soon')).toBeNull();
+    });
+});
+
+describe('findDurations', () => {
+    it('finds durations inside instructions', () => {
+        expect(findDurations('Bake until golden (about 8 min).')).toMatchObject([{ seconds: 480, text: 'about 8 min' }]);
+        expect(seconds('Simmer for 10 minutes, then give it a 10-minute rest before slicing.')).toEqual([[600, null], [600, null]]);
+        expect(seconds('Cook for a minute, then bake for an hour and a half.')).toEqual([[60, null], [5400, null]]);
+        expect(seconds('Marinate overnight.')).toEqual([[8 * 3600, 12 * 3600]]);
+    });
+
+    it('ignores "a" and "an" used as articles', () => {
+        expect(findDurations('Whisk the whites in a second bowl.')).toEqual([]);
+        expect(findDurations('A minute later, add the garlic.')).toEqual([]);
+        expect(findDurations('Rest for a second time.')).toEqual([]);
+    });
+
+    it('ignores numbers that are not durations', () => {
+        expect(findDurations('Add 2 cups of flour and 1 egg.')).toEqual([]);
+        expect(findDurations('Preheat the oven to 180°C.')).toEqual([]);
+    });
+});
+
+describe('describeDuration', () => {
+    it('spells out hours, minutes and seconds', () => {
+        expect(describeDuration(1500)).toBe('25 minutes');
+        expect(describeDuration(5400)).toBe('1 hour 30 minutes');
+        expect(describeDuration(45)).toBe('45 seconds');
+        expect(describeDuration(0)).toBe('0 seconds');
+    });
+});
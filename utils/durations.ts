@@ -0,0 +1,159 @@
+// Finds cooking durations in instruction text, so steps can offer timers for
+// them. Understands digits, fractions ("1½", "1 1/2") and number words ("ten",
+// "half an hour"), compound durations ("1 hour 30 minutes"), ranges ("20-25
+// minutes", "a minute or two") and "overnight".
+
+export interface DurationRange {
+    // The shortest time given; the whole time when it isn't a range
+    seconds: number;
+    // The longest time of a range, or null for a single time
+    maxSeconds: number | null;
+}
+
+export interface FoundDuration extends DurationRange {
+    // Where the phrase starts in the text, and the phrase as written
+    index: number;
+    text: string;
+}
+
+// Overnight soaking, marinating or proving: at least 8 hours, 12 at most.
+const OVERNIGHT: DurationRange = { seconds: 8 * 3600, maxSeconds: 12 * 3600 };
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+    eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, ninety: 90,
+};
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 };
+
+const TENS = 'twenty|thirty|forty|fifty';
+const WORD = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|');
+const FRACTION = `[${Object.keys(FRACTIONS).join('')}]`;
+
+// One amount: "1", "1.5", "1½", "1 1/2", "½", "forty-five", "half an", "a couple of"
+const NUMBER = `(?:\\d+(?:\\.\\d+)?\\s?${FRACTION}?|\\d+\\s\\d\\/\\d|\\d\\/\\d|${FRACTION}`
+    + `|(?:${TENS})[-\\s](?:one|two|three|four|five|six|seven|eight|nine)|${WORD}|half an?|a couple(?: of)?)`
+    + `(?:\\s+and\\s+a\\s+half)?`;
+// ...or just "a"/"an", as in "an hour"
+const AMOUNT = `(?:${NUMBER}|an?)`;
+const UNIT = '(?:hours?|hrs?|minutes?|mins?|seconds?|secs?)';
+// "a" and "an" are usually just articles: "a minute later" and "a second bowl"
+// aren't timers. They only count before minutes or hours, with nothing but
+// punctuation or a linking word after.
+const ARTICLE_FOLLOWERS = 'or|to|and|more|longer|before|until|then|per|each|at|on|in|with|while|over|uncovered|covered';
+const ARTICLE_PART = `an?\\s+(?:hours?|hrs?|minutes?|mins?)\\b(?=\\s*(?:$|[^\\w\\s]|(?:${ARTICLE_FOLLOWERS})\\b))`;
+// "10 minutes", "an hour and a half", "a 10-minute rest"
+const PART = `(?:${NUMBER}(?:\\s*|-)${UNIT}\\b|${ARTICLE_PART})(?:\\s+and\\s+a\\s+half)?`;
+// "1 hour 30 minutes", "1 hr, 15 min", "1 hour and 30 minutes"
+const SPAN = `${PART}(?:(?:\\s*,\\s*|\\s+and\\s+|\\s+)${PART})*`;
+const RANGE_SEP = '\\s*(?:-|–|—|to|or)\\s*';
+// Not in the middle of a word or number
+const START = `(?<![\\w${Object.keys(FRACTIONS).join('')}.])`;
+
+const DURATION_RE = new RegExp(
+    `${START}(?:(?:about|around|approximately|approx\\.|roughly)\\s+)?(?:`
+    // A single duration, or "45 minutes to 1 hour"; "a minute or two" reuses the unit.
+    // Tried first so "forty-five minutes" isn't read as a range.
+    + `(?<span>${SPAN})(?:${RANGE_SEP}(?:(?<spanHigh>${SPAN})|(?<highAmount>${AMOUNT})(?![\\s-]*\\w)))?`
+    // "20-25 minutes", "1 to 1½ hours": the unit is shared
+    + `|(?<low>${AMOUNT})${RANGE_SEP}(?<high>${SPAN})`
+    + `|(?<overnight>overnight)`
+    + `)`,
+    'gi',
+);
+const PART_RE = new RegExp(`(?<amount>${AMOUNT})(?:\\s*|-)(?<unit>${UNIT})\\b(?<half>\\s+and\\s+a\\s+half)?`, 'gi');
+
+const unitSeconds = (unit: string): number => {
+    const u = unit.toLowerCase();
+    return u.startsWith('sec') ? 1 : u.startsWith('h') ? 3600 : 60;
+};
+
+/** The number an amount phrase stands for: "1½" → 1.5, "forty-five" → 45, "half an" → 0.5. */
+const readAmount = (phrase: string): number => {
+    let text = phrase.toLowerCase().trim();
+    let extra = 0;
+    if (/\s+and\s+a\s+half$/.test(text)) {
+        extra = 0.5;
+        text = text.replace(/\s+and\s+a\s+half$/, '');
+    }
+    if (text === 'a' || text === 'an') return 1 + extra;
+    if (text.startsWith('half')) return 0.5 + extra;
+    if (text.startsWith('a couple')) return 2 + extra;
+
+    const mixed = /^(\d+)\s(\d)\/(\d)$/.exec(text);
+    if (mixed) return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10) + extra;
+    const fraction = /^(\d)\/(\d)$/.exec(text);
+    if (fraction) return parseInt(fraction[1], 10) / parseInt(fraction[2], 10) + extra;
+    const digits = /^(\d+(?:\.\d+)?)?\s?(\S)?$/.exec(text);
+    if (digits && (digits[1] || digits[2])) {
+        const whole = digits[1] ? parseFloat(digits[1]) : 0;
+        const part = digits[2] ? FRACTIONS[digits[2]] : 0;
+        if (part !== undefined) return whole + part + extra;
+    }
+    // "forty-five", "twenty five"
+    return text.split(/[-\s]+/).reduce((sum, word) => sum + (NUMBER_WORDS[word] ?? 0), 0) + extra;
+};
+
+interface Part {
+    seconds: number;
+    unitSeconds: number;
+}
+
+const readParts = (span: string): Part[] =>
+    Array.from(span.matchAll(PART_RE), match => {
+        const unit = unitSeconds(match.groups!.unit);
+        const amount = readAmount(match.groups!.amount) + (match.groups!.half ? 0.5 : 0);
+        return { seconds: amount * unit, unitSeconds: unit };
+    });
+
+const total = (parts: Part[]) => Math.round(parts.reduce((sum, part) => sum + part.seconds, 0));
+
+// A range only when the top is actually longer; "1 hour or 30 minutes" keeps the first.
+const toRange = (low: number, high: number): DurationRange =>
+    ({ seconds: low, maxSeconds: high > low ? high : null });
+
+const readMatch = (groups: Record<string, string | undefined>): DurationRange | null => {
+    if (groups.overnight) return OVERNIGHT;
+    if (groups.low && groups.high) {
+        const high = readParts(groups.high);
+        if (high.length === 0) return null;
+        return toRange(Math.round(readAmount(groups.low) * high[0].unitSeconds), total(high));
+    }
+    const parts = readParts(groups.span ?? '');
+    if (parts.length === 0) return null;
+    const seconds = total(parts);
+    if (groups.spanHigh) return toRange(seconds, total(readParts(groups.spanHigh)));
+    if (groups.highAmount) return toRange(seconds, Math.round(readAmount(groups.highAmount) * parts[parts.length - 1].unitSeconds));
+    return { seconds, maxSeconds: null };
+};
+
+/** Every duration in `text`, in order. */
+export const findDurations = (text: string): FoundDuration[] => {
+    const found: FoundDuration[] = [];
+    for (const match of text.matchAll(DURATION_RE)) {
+        const range = match.groups ? readMatch(match.groups) : null;
+        if (range && range.seconds > 0) found.push({ index: match.index!, text: match[0], ...range });
+    }
+    return found;
+};
+
+/** The duration a whole phrase describes ("1 hour 30 minutes", "ten minutes"), or null. */
+export const parseDuration = (phrase: string): DurationRange | null => {
+    const trimmed = phrase.trim();
+    const [first] = findDurations(trimmed);
+    return first && first.index === 0 && first.text.length === trimmed.length ? { seconds: first.seconds, maxSeconds: first.maxSeconds } : null;
+};
+
+/** "25 minutes", "1 hour 30 minutes", "45 seconds", for speech and labels. */
+export const describeDuration = (seconds: number): string => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const parts = [
+        h > 0 ? `${h} hour${h === 1 ? '' : 's'}` : '',
+        m > 0 ? `${m} minute${m === 1 ? '' : 's'}` : '',
+        s > 0 ? `${s} second${s === 1 ? '' : 's'}` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : '0 seconds';
+};
@@ -0,0 +1,116 @@
+import type { Course, Difficulty, GenerationOptions } from '../types';
+import { DIETS, DIET_LABELS } from './allergens';
+
+// The filters on the home screen, shared by the client (controls, history
+// labels) and the server (validating requests, building the prompt).
+
+export const CUISINES = [
+    "American",
+    "Chinese",
+    "Comfort Food",
+    "French",
+    "Greek",
+    "Indian",
+    "Italian",
+    "Japanese",
+    "Korean",
+    "Mediterranean",
+    "Mexican",
+    "Middle Eastern",
+    "Thai",
+    "Vietnamese",
+];
+
+export const COURSE_LABELS: Record<Course, string> = {
+    breakfast: 'Breakfast',
+    lunch: 'Lunch',
+    dinner: 'Dinner',
+    snack: 'Snack',
+    side: 'Side',
+    dessert: 'Dessert',
+};
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Challenging',
+};
+
+export const COURSES = Object.keys(COURSE_LABELS) as Course[];
+export const DIFFICULTIES = Object.keys(DIFFICULTY_LABELS) as Difficulty[];
+
+export const EQUIPMENT = ["Oven", "Stovetop", "Microwave", "Air fryer", "Slow cooker", "Pressure cooker", "Grill", "Blender", "Food processor"];
+
+export const MIN_RECIPE_COUNT = 1;
+export const MAX_RECIPE_COUNT = 6;
+
+// Choices offered for the time budget, in minutes.
+export const PREP_TIME_LIMITS = [15, 30, 45, 60, 90];
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+    count: 3,
+    cuisines: [],
+    diets: [],
+    course: null,
+    maxPrepMinutes: null,
+    difficulty: null,
+    equipment: [],
+};
+
+const pick = <T extends string>(value: unknown, known: readonly T[]): T[] =>
+    Array.isArray(value) ? known.filter(k => value.includes(k)) : [];
+
+const pickOne = <T extends string>(value: unknown, known: readonly T[]): T | null =>
+    known.find(k => k === value) ?? null;
+
+/** Reads posted or stored options, dropping anything unrecognised. */
+export const readGenerationOptions = (raw: unknown): GenerationOptions => {
+    if (!raw || typeof raw !== 'object') return { ...DEFAULT_GENERATION_OPTIONS };
+    const { count, cuisines, diets, course, maxPrepMinutes, difficulty, equipment } = raw as Record<string, unknown>;
+    return {
+        count: typeof count === 'number' && Number.isFinite(count)
+            ? Math.min(Math.max(Math.round(count), MIN_RECIPE_COUNT), MAX_RECIPE_COUNT)
+            : DEFAULT_GENERATION_OPTIONS.count,
+        cuisines: pick(cuisines, CUISINES),
+        diets: pick(diets, DIETS),
+        course: pickOne(course, COURSES),
+        maxPrepMinutes: typeof maxPrepMinutes === 'number' && Number.isFinite(maxPrepMinutes) && maxPrepMinutes > 0
+            ? Math.round(maxPrepMinutes)
+            : null,
+        difficulty: pickOne(difficulty, DIFFICULTIES),
+        equipment: pick(equipment, EQUIPMENT),
+    };
+};
+
+// What the old single "Preference" select stored, before these options existed.
+const LEGACY_CUISINES: Record<string, Partial<GenerationOptions>> = {
+    "Asian": { cuisines: ["Chinese", "Japanese", "Korean", "Thai", "Vietnamese"] },
+    "Gluten-Free": { diets: ['gluten-free'] },
+    "Keto": { diets: ['keto'] },
+    "Paleo": { diets: ['paleo'] },
+    "Vegan": { diets: ['vegan'] },
+    "Vegetarian": { diets: ['vegetarian'] },
+    "Quick (< 30m)": { maxPrepMinutes: 30 },
+};
+
+/**
+ * Options for a history entry or saved recipe, which may predate them and
+ * only carry the old `cuisine` string ("Open", "Italian", "Vegan"...).
+ */
+export const readStoredGenerationOptions = (record: object): GenerationOptions => {
+    const { options, cuisine } = record as { options?: unknown; cuisine?: unknown };
+    if (options !== undefined) return readGenerationOptions(options);
+    if (typeof cuisine !== 'string' || cuisine === "Open") return { ...DEFAULT_GENERATION_OPTIONS };
+    const legacy = LEGACY_CUISINES[cuisine] ?? (CUISINES.includes(cuisine) ? { cuisines: [cuisine] } : {});
+    return { ...DEFAULT_GENERATION_OPTIONS, ...legacy };
+};
+
+/** Short labels for whatever was chosen: ["Mexican", "Vegetarian", "Dinner", "≤ 45 min"]. The count isn't a filter, so it's left out. */
+export const summarizeGenerationOptions = (options: GenerationOptions): string[] => [
+    ...options.cuisines,
+    ...options.diets.map(d => DIET_LABELS[d]),
+    ...(options.course ? [COURSE_LABELS[options.course]] : []),
+    ...(options.maxPrepMinutes ? [`≤ ${options.maxPrepMinutes} min`] : []),
+    ...(options.difficulty ? [DIFFICULTY_LABELS[options.difficulty]] : []),
+    ...options.equipment,
+];
@@ -0,0 +1,294 @@
+import type { Ingredient, Quantity, Recipe, RecipeIngredient } from '../types';
+import { normalizeNutrition } from './nutrition';
+
+// Parsing and formatting of ingredient quantities. Model output and user input are
+// messy ("1½ cups flour", "2-3 cloves garlic, minced", "salt to taste", "200g feta"),
+// so the parser is forgiving: anything it can't read as a number becomes a vague
+// quantity (amount null) with the wording kept in `note`.
+
+interface UnitDefinition {
+    id: string;
+    plural?: string;
+    aliases: string[];
+}
+
+// `id` is the canonical form stored in Quantity.unit.
+const UNITS: UnitDefinition[] = [
+    { id: 'mg', aliases: ['mg', 'milligram', 'milligrams'] },
+    { id: 'g', aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'] },
+    { id: 'kg', aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+    { id: 'ml', aliases: ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+    { id: 'l', aliases: ['l', 'liter', 'liters', 'litre', 'litres'] },
+    { id: 'tsp', aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons', 't'] },
+    { id: 'tbsp', aliases: ['tbsp', 'tbsps', 'tbs', 'tablespoon', 'tablespoons', 'T'] },
+    { id: 'fl oz', aliases: ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'] },
+    { id: 'cup', plural: 'cups', aliases: ['cup', 'cups', 'c'] },
+    { id: 'pint', plural: 'pints', aliases: ['pint', 'pints', 'pt'] },
+    { id: 'quart', plural: 'quarts', aliases: ['quart', 'quarts', 'qt'] },
+    { id: 'gallon', plural: 'gallons', aliases: ['gallon', 'gallons', 'gal'] },
+    { id: 'oz', aliases: ['oz', 'ounce', 'ounces'] },
+    { id: 'lb', aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+    { id: 'pinch', plural: 'pinches', aliases: ['pinch', 'pinches'] },
+    { id: 'dash', plural: 'dashes', aliases: ['dash', 'dashes'] },
+    { id: 'handful', plural: 'handfuls', aliases: ['handful', 'handfuls'] },
+    { id: 'clove', plural: 'cloves', aliases: ['clove', 'cloves'] },
+    { id: 'can', plural: 'cans', aliases: ['can', 'cans', 'tin', 'tins'] },
+    { id: 'slice', plural: 'slices', aliases: ['slice', 'slices'] },
+    { id: 'piece', plural: 'pieces', aliases: ['piece', 'pieces', 'pc', 'pcs'] },
+    { id: 'bunch', plural: 'bunches', aliases: ['bunch', 'bunches'] },
+    { id: 'sprig', plural: 'sprigs', aliases: ['sprig', 'sprigs'] },
+    { id: 'stick', plural: 'sticks', aliases: ['stick', 'sticks'] },
+    { id: 'head', plural: 'heads', aliases: ['head', 'heads'] },
+    { id: 'package', plural: 'packages', aliases: ['package', 'packages', 'pkg', 'packet', 'packets'] },
+];
+
+// Single letters are case-sensitive (T = tablespoon, t = teaspoon); everything else isn't.
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+    for (const alias of unit.aliases) {
+        UNIT_LOOKUP.set(alias.length === 1 ? alias : alias.toLowerCase(), unit);
+    }
+}
+// Longest first so "fl oz" wins over "oz".
+const UNIT_ALIASES = Array.from(UNIT_LOOKUP.keys()).sort((a, b) => b.length - a.length);
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+    '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4,
+    '⅕': 1 / 5, '⅖': 2 / 5, '⅗': 3 / 5, '⅘': 4 / 5, '⅙': 1 / 6, '⅚': 5 / 6,
+    '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+    half: 0.5, dozen: 12, quarter: 0.25,
+};
+
+// Phrases that mean "no measurable amount".
+const VAGUE_PREFIXES = ['some', 'a little', 'a bit of', 'a few', 'a splash of', 'a drizzle of', 'a sprinkle of', 'to taste', 'as needed'];
+const VAGUE_SUFFIX_RE = /\b(to taste|as needed|for (?:garnish|serving|drizzling|frying|greasing|dusting)|optional)\b/i;
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+const AMOUNT_RE = new RegExp(
+    `^(?:(\\d+)\\s*([${FRACTION_CHARS}])|(\\d+)\\s+(\\d+)\\s*/\\s*(\\d+)|(\\d+)\\s*/\\s*(\\d+)|(\\d+(?:\\.\\d+)?|\\.\\d+)|([${FRACTION_CHARS}]))`
+);
+const RANGE_SEPARATOR_RE = /^\s*(?:-|–|—|to|or)\s*/i;
+
+const readAmount = (text: string): { value: number; rest: string } | null => {
+    const match = AMOUNT_RE.exec(text);
+    if (match) {
+        let value: number;
+        if (match[1] !== undefined) value = Number(match[1]) + UNICODE_FRACTIONS[match[2]];
+        else if (match[3] !== undefined) value = Number(match[3]) + Number(match[4]) / Number(match[5]);
+        else if (match[6] !== undefined) value = Number(match[6]) / Number(match[7]);
+        else if (match[8] !== undefined) value = Number(match[8]);
+        else value = UNICODE_FRACTIONS[match[9]];
+        if (!isFinite(value)) return null;
+        return { value, rest: text.slice(match[0].length) };
+    }
+
+    const word = /^([a-z]+)\b/i.exec(text);
+    if (word && word[1].toLowerCase() in NUMBER_WORDS) {
+        let value = NUMBER_WORDS[word[1].toLowerCase()];
+        let rest = text.slice(word[0].length);
+        // "half a cup", "a dozen eggs"
+        const follow = /^\s+(a|an|dozen)\b/i.exec(rest);
+        if (follow && (word[1].toLowerCase() === 'half' || follow[1].toLowerCase() === 'dozen')) {
+            value *= follow[1].toLowerCase() === 'dozen' ? 12 : 1;
+            rest = rest.slice(follow[0].length);
+        }
+        return { value, rest };
+    }
+    return null;
+};
+
+const readUnit = (text: string): { unit: string; rest: string } | null => {
+    for (const alias of UNIT_ALIASES) {
+        const candidate = text.slice(0, alias.length);
+        const matches = alias.length === 1 ? candidate === alias : candidate.toLowerCase() === alias;
+        // Must end at a word boundary: "g flour" or "g" but not "garlic".
+        if (matches && !/^[a-z]/i.test(text.slice(alias.length))) {
+            return {
+                unit: UNIT_LOOKUP.get(alias)!.id,
+                rest: text.slice(alias.length).replace(/^\./, ''),
+            };
+        }
+    }
+    return null;
+};
+
+/** Canonical unit id for a unit word, or null if it isn't one we know. */
+export const normalizeUnit = (unit: string | null | undefined): string | null => {
+    if (!unit) return null;
+    const trimmed = unit.trim().replace(/\.$/, '');
+    const found = UNIT_LOOKUP.get(trimmed.length === 1 ? trimmed : trimmed.toLowerCase());
+    return found ? found.id : trimmed.toLowerCase() || null;
+};
+
+/**
+ * Reads a leading quantity ("2-3 cloves", "1½ cups", "200g", "a handful of") off `text`.
+ * Returns the quantity and the remaining text.
+ */
+const readQuantity = (text: string): { quantity: Quantity; rest: string } => {
+    let rest = text.trim().replace(/^[-*•]\s*/, '');
+    const lower = rest.toLowerCase();
+
+    for (const prefix of VAGUE_PREFIXES) {
+        if (lower.startsWith(prefix + ' ') || lower === prefix) {
+            return {
+                quantity: { amount: null, unit: null, note: prefix },
+                rest: rest.slice(prefix.length).trim(),
+            };
+        }
+    }
+
+    const amount = readAmount(rest);
+    if (!amount) {
+        // "Pinch of salt", "Handful of basil": an implied one
+        const bareUnit = readUnit(rest);
+        if (bareUnit && /^\s+of\s+/i.test(bareUnit.rest)) {
+            return {
+                quantity: { amount: 1, unit: bareUnit.unit },
+                rest: bareUnit.rest.replace(/^\s+of\s+/i, ''),
+            };
+        }
+        return { quantity: { amount: null, unit: null }, rest };
+    }
+
+    const quantity: Quantity = { amount: amount.value, unit: null };
+    rest = amount.rest;
+
+    const separator = RANGE_SEPARATOR_RE.exec(rest);
+    if (separator) {
+        const upper = readAmount(rest.slice(separator[0].length));
+        if (upper && upper.value > amount.value) {
+            quantity.amountMax = upper.value;
+            rest = upper.rest;
+        }
+    }
+
+    rest = rest.trimStart();
+    // "1 (14 oz) can tomatoes": keep the size as a note
+    const sizeNote = /^\(([^)]*)\)\s*/.exec(rest);
+    if (sizeNote) {
+        quantity.note = sizeNote[1].trim();
+        rest = rest.slice(sizeNote[0].length);
+    }
+
+    const unit = readUnit(rest);
+    if (unit) {
+        quantity.unit = unit.unit;
+        rest = unit.rest;
+    }
+    rest = rest.trim().replace(/^of\s+/i, '');
+
+    return { quantity, rest };
+};
+
+/** Parses a standalone quantity such as "200g", "a handful" or "2-3". */
+export const parseQuantity = (text: string): Quantity => {
+    const { quantity, rest } = readQuantity(text);
+    if (quantity.amount === null && !quantity.note && rest) {
+        return { amount: null, unit: null, note: rest };
+    }
+    return quantity;
+};
+
+/** Parses a full ingredient line such as "2 large eggs, beaten" or "salt to taste". */
+export const parseIngredientLine = (line: string): RecipeIngredient => {
+    const { quantity, rest } = readQuantity(line);
+    let item = rest;
+    const notes: string[] = quantity.note ? [quantity.note] : [];
+
+    // Trailing "(optional)" and ", finely chopped"
+    const paren = /\s*\(([^)]*)\)\s*$/.exec(item);
+    if (paren) {
+        notes.push(paren[1].trim());
+        item = item.slice(0, paren.index);
+    }
+    const comma = item.indexOf(',');
+    if (comma >= 0) {
+        notes.push(item.slice(comma + 1).trim());
+        item = item.slice(0, comma);
+    }
+    const vague = VAGUE_SUFFIX_RE.exec(item);
+    if (vague && vague.index > 0) {
+        notes.push(item.slice(vague.index).trim());
+        item = item.slice(0, vague.index);
+    }
+
+    return {
+        item: item.trim() || line.trim(),
+        amount: quantity.amount,
+        ...(quantity.amountMax !== undefined && { amountMax: quantity.amountMax }),
+        unit: quantity.unit,
+        ...(notes.filter(Boolean).length > 0 && { note: notes.filter(Boolean).join(', ') }),
+    };
+};
+
+const COMMON_FRACTIONS: [number, string][] = [
+    [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+    [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+
+// Metric amounts read better as decimals ("1.5 kg", not "1 1/2 kg").
+const DECIMAL_UNITS = new Set(['mg', 'g', 'kg', 'ml', 'l']);
+
+const formatDecimal = (value: number): string => String(Math.round(value * 100) / 100);
+
+/** Metric units, which are formatted and rounded as decimals rather than fractions. */
+export const isDecimalUnit = (unit: string | null | undefined): boolean => !!unit && DECIMAL_UNITS.has(unit);
+
+/** Formats a number with kitchen fractions where they fit ("1 1/2", "1/3"), otherwise up to 2 decimals. */
+export const formatAmount = (value: number): string => {
+    const whole = Math.floor(value);
+    const fraction = value - whole;
+    if (fraction < 0.02) return String(whole);
+    if (fraction > 0.98) return String(whole + 1);
+    const match = COMMON_FRACTIONS.find(([f]) => Math.abs(f - fraction) < 0.02);
+    if (match) return whole > 0 ? `${whole} ${match[1]}` : match[1];
+    return formatDecimal(value);
+};
+
+const formatUnit = (unit: string, amount: number): string => {
+    const def = UNITS.find(u => u.id === unit);
+    return def?.plural && amount > 1 ? def.plural : unit;
+};
+
+/** "2-3 cloves", "200 g", "1/2 cup"; empty string for vague quantities. */
+export const formatQuantity = (quantity: Quantity): string => {
+    if (quantity.amount === null) return quantity.note ?? '';
+    const upper = quantity.amountMax ?? quantity.amount;
+    const format = isDecimalUnit(quantity.unit) ? formatDecimal : formatAmount;
+    const amount = quantity.amountMax !== undefined && quantity.amountMax !== null
+        ? `${format(quantity.amount)}-${format(quantity.amountMax)}`
+        : format(quantity.amount);
+    return quantity.unit ? `${amount} ${formatUnit(quantity.unit, upper)}` : amount;
+};
+
+/** Human-readable ingredient line: "2 cloves garlic, minced" or "Salt (to taste)". */
+export const formatRecipeIngredient = (ingredient: RecipeIngredient): string => {
+    if (ingredient.amount === null) {
+        return ingredient.note ? `${ingredient.item} (${ingredient.note})` : ingredient.item;
+    }
+    const line = `${formatQuantity(ingredient)} ${ingredient.item}`;
+    return ingredient.note ? `${line}, ${ingredient.note}` : line;
+};
+
+/** Accepts either the structured form or a legacy free-text line. */
+export const toRecipeIngredient = (value: RecipeIngredient | string): RecipeIngredient =>
+    typeof value === 'string' ? parseIngredientLine(value) : value;
+
+/** Upgrades recipes stored before ingredients and nutrition were structured. */
+export const normalizeRecipe = (recipe: Recipe): Recipe => ({
+    ...recipe,
+    ingredients: (recipe.ingredients as (RecipeIngredient | string)[]).map(toRecipeIngredient),
+    nutritionalInfo: normalizeNutrition(recipe.nutritionalInfo),
+});
+
+/** Builds a scanned/user-entered Ingredient from free text like "2 eggs". */
+export const ingredientFromText = (text: string): Ingredient => {
+    const parsed = parseIngredientLine(text);
+    const quantity = parsed.amount === null ? '' : formatQuantity(parsed);
+    return { name: parsed.item, quantity, amount: parsed.amount, unit: parsed.unit };
+};
@@ -0,0 +1,160 @@
+import type { KitchenTimer, KitchenTimerStatus } from '../types';
+import type { DurationRange } from './durations';
+
+// State changes for the kitchen timers, as a reducer so the provider that owns
+// them stays small. A running timer stores when it ends rather than counting
+// down, so it stays right however often (or rarely) the page gets to run.
+
+export interface NewKitchenTimer {
+    label: string;
+    recipeName: string;
+    step: number | null;
+    seconds: number;
+    // Reminder to check part way through, for ranges
+    checkAfterSeconds: number | null;
+}
+
+// Every action carries the time it happened, keeping the reducer pure.
+export type KitchenTimerAction =
+    | { type: 'start'; timer: NewKitchenTimer; now: number }
+    | { type: 'pause'; id: string; now: number }
+    | { type: 'resume'; id: string; now: number }
+    | { type: 'restart'; id: string; now: number }
+    | { type: 'dismiss'; id: string }
+    // Marks running timers whose end (or check reminder) has passed
+    | { type: 'expire'; now: number };
+
+// Longest label kept from a step's text.
+const MAX_LABEL_LENGTH = 32;
+
+const STATUSES: KitchenTimerStatus[] = ['running', 'paused', 'done'];
+
+/** A short name for a timer from the step that started it: "Boil the pasta until al…". */
+export const timerLabelFromStep = (text: string): string => {
+    const firstClause = text.split(/[.;:]/)[0].trim();
+    return firstClause.length <= MAX_LABEL_LENGTH
+        ? firstClause
+        : `${firstClause.slice(0, MAX_LABEL_LENGTH).replace(/\s+\S*$/, '')}…`;
+};
+
+/** "05:00", or "1:05:00" past an hour. */
+export const formatTimerTime = (seconds: number): string => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const mm = m.toString().padStart(2, '0');
+    const ss = s.toString().padStart(2, '0');
+    return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+/** How long a timer for `duration` runs: to the end of a range, with a check at its start. */
+export const timerLengthFor = (duration: DurationRange): Pick<NewKitchenTimer, 'seconds' | 'checkAfterSeconds'> =>
+    duration.maxSeconds !== null
+        ? { seconds: duration.maxSeconds, checkAfterSeconds: duration.seconds }
+        : { seconds: duration.seconds, checkAfterSeconds: null };
+
+/** Milliseconds left on `timer` at `now`. */
+export const remainingMs = (timer: KitchenTimer, now: number): number =>
+    timer.status === 'running' && timer.endsAt !== null ? Math.max(0, timer.endsAt - now) : timer.pausedRemainingMs;
+
+/** Whole seconds left, rounded up so a timer reads 00:01 until it's really done. */
+export const remainingSeconds = (timer: KitchenTimer, now: number): number =>
+    Math.ceil(remainingMs(timer, now) / 1000);
+
+/** Seconds until a running timer's check reminder, or null when there's none to come. */
+export const secondsUntilCheck = (timer: KitchenTimer, now: number): number | null =>
+    timer.checkAfterSeconds === null || timer.checkDue || timer.status === 'done'
+        ? null
+        : Math.max(0, remainingSeconds(timer, now) - (timer.durationSeconds - timer.checkAfterSeconds));
+
+// When a running timer's check reminder goes off (epoch ms)
+const checkAt = (timer: KitchenTimer): number | null =>
+    timer.status === 'running' && timer.endsAt !== null && timer.checkAfterSeconds !== null && !timer.checkDue
+        ? timer.endsAt - (timer.durationSeconds - timer.checkAfterSeconds) * 1000
+        : null;
+
+/** The soonest end or check reminder among running timers, or null when none are running. */
+export const nextTimerEvent = (timers: KitchenTimer[]): number | null =>
+    timers
+        .flatMap(t => t.status === 'running' ? [t.endsAt, checkAt(t)] : [])
+        .reduce<number | null>((soonest, at) => at !== null && (soonest === null || at < soonest) ? at : soonest, null);
+
+const isDue = (timer: KitchenTimer, now: number) =>
+    timer.status === 'running' && timer.endsAt !== null && timer.endsAt <= now;
+
+const isCheckDue = (timer: KitchenTimer, now: number) => {
+    const at = checkAt(timer);
+    return at !== null && at <= now;
+};
+
+const running = (timer: KitchenTimer, ms: number, now: number): KitchenTimer =>
+    ({ ...timer, status: 'running', endsAt: now + ms, pausedRemainingMs: ms });
+
+const update = (timers: KitchenTimer[], id: string, change: (timer: KitchenTimer) => KitchenTimer) =>
+    timers.map(timer => timer.id === id ? change(timer) : timer);
+
+export const kitchenTimersReducer = (timers: KitchenTimer[], action: KitchenTimerAction): KitchenTimer[] => {
+    switch (action.type) {
+        case 'start': {
+            const { label, recipeName, step, seconds, checkAfterSeconds } = action.timer;
+            const ms = seconds * 1000;
+            // Tapping the same step's timer again restarts it rather than adding a twin
+            const same = timers.find(t => t.recipeName === recipeName && t.step === step && t.durationSeconds === seconds && step !== null);
+            if (same) return update(timers, same.id, t => running({ ...t, checkDue: false }, ms, action.now));
+            return [...timers, {
+                id: crypto.randomUUID(),
+                label,
+                recipeName,
+                step,
+                durationSeconds: seconds,
+                endsAt: action.now + ms,
+                pausedRemainingMs: ms,
+                checkAfterSeconds,
+                checkDue: false,
+                status: 'running',
+            }];
+        }
+        case 'pause':
+            return update(timers, action.id, t =>
+                t.status === 'running' ? { ...t, status: 'paused', endsAt: null, pausedRemainingMs: remainingMs(t, action.now) } : t);
+        case 'resume':
+            return update(timers, action.id, t => t.status === 'paused' ? running(t, t.pausedRemainingMs, action.now) : t);
+        case 'restart':
+            return update(timers, action.id, t => running({ ...t, checkDue: false }, t.durationSeconds * 1000, action.now));
+        case 'dismiss':
+            return timers.filter(t => t.id !== action.id);
+        case 'expire':
+            if (!timers.some(t => isDue(t, action.now) || isCheckDue(t, action.now))) return timers;
+            return timers.map(t => {
+                if (isDue(t, action.now)) return { ...t, status: 'done', endsAt: null, pausedRemainingMs: 0, checkDue: t.checkAfterSeconds !== null };
+                return isCheckDue(t, action.now) ? { ...t, checkDue: true } : t;
+            });
+    }
+};
+
+/** Timers as stored; anything malformed is dropped. */
+export const readStoredTimers = (raw: unknown): KitchenTimer[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((t): KitchenTimer[] => {
+        if (!t || typeof t !== 'object') return [];
+        const { id, label, recipeName, step, durationSeconds, endsAt, pausedRemainingMs, checkAfterSeconds, checkDue, status } = t as Record<string, unknown>;
+        const valid = typeof id === 'string' && typeof label === 'string' && typeof recipeName === 'string'
+            && (step === null || (typeof step === 'number' && Number.isInteger(step) && step >= 0))
+            && typeof durationSeconds === 'number' && durationSeconds > 0
+            && (endsAt === null || typeof endsAt === 'number')
+            && typeof pausedRemainingMs === 'number' && pausedRemainingMs >= 0
+            && STATUSES.includes(status as KitchenTimerStatus)
+            && (status !== 'running' || endsAt !== null);
+        return valid ? [{
+            id, label, recipeName,
+            step: step as number | null,
+            durationSeconds,
+            endsAt: endsAt as number | null,
+            pausedRemainingMs,
+            // Older saves have no check reminder
+            checkAfterSeconds: typeof checkAfterSeconds === 'number' && checkAfterSeconds > 0 && checkAfterSeconds < durationSeconds ? checkAfterSeconds : null,
+            checkDue: checkDue === true,
+            status: status as KitchenTimerStatus,
+        }] : [];
+    });
+};
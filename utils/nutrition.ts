@@ -0,0 +1,166 @@
+import type { NutrientAmount, NutrientKey, NutrientUnit, NutritionalInfo, NutritionTargets } from '../types';
+
+// Numeric nutrition. Values are kept per serving in a fixed unit per nutrient;
+// `normalizeNutrition` also reads the free-text values ("450 kcal", "~30g",
+// "20-25 g") that older saved recipes and looser model output contain.
+
+export const NUTRIENT_UNITS: Record<NutrientKey, NutrientUnit> = {
+    calories: 'kcal',
+    protein: 'g',
+    carbs: 'g',
+    fat: 'g',
+    fiber: 'g',
+    sugar: 'g',
+    sodium: 'mg',
+};
+
+export const NUTRIENT_LABELS: Record<NutrientKey, string> = {
+    calories: 'Calories',
+    protein: 'Protein',
+    carbs: 'Carbs',
+    fat: 'Fat',
+    fiber: 'Fiber',
+    sugar: 'Sugar',
+    sodium: 'Sodium',
+};
+
+// Always present on a recipe; the rest are optional extras.
+export const CORE_NUTRIENTS = ['calories', 'protein', 'carbs', 'fat'] as const;
+export const EXTRA_NUTRIENTS = ['fiber', 'sugar', 'sodium'] as const;
+export const ALL_NUTRIENTS: NutrientKey[] = [...CORE_NUTRIENTS, ...EXTRA_NUTRIENTS];
+
+// FDA daily values for a 2,000 kcal diet.
+export const DEFAULT_NUTRITION_TARGETS: NutritionTargets = {
+    calories: 2000,
+    protein: 50,
+    carbs: 275,
+    fat: 78,
+    fiber: 28,
+    sugar: 50,
+    sodium: 2300,
+};
+
+// kcal per gram, for the macro breakdown.
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+// How many of the canonical unit one of these is.
+const UNIT_FACTORS: Record<NutrientUnit, Record<string, number>> = {
+    kcal: { kcal: 1, cal: 1, cals: 1, calorie: 1, calories: 1, kj: 1 / 4.184 },
+    g: { g: 1, gram: 1, grams: 1, mg: 0.001, mcg: 0.000001, 'µg': 0.000001, kg: 1000 },
+    mg: { mg: 1, g: 1000, gram: 1000, grams: 1000, mcg: 0.001, 'µg': 0.001 },
+};
+
+const roundNutrient = (value: number) => (value >= 10 ? Math.round(value) : Math.round(value * 10) / 10);
+
+/**
+ * Reads one nutrient from a number, a `{ value, unit }` object or text such as
+ * "450 kcal", "~30g", "1,200 mg" or "20-25 g" (ranges become their midpoint).
+ * Unknown or missing values come back with `value: null`.
+ */
+export const parseNutrient = (raw: unknown, key: NutrientKey): NutrientAmount => {
+    const unit = NUTRIENT_UNITS[key];
+    const missing: NutrientAmount = { value: null, unit };
+
+    if (typeof raw === 'number') {
+        return Number.isFinite(raw) && raw >= 0 ? { value: roundNutrient(raw), unit } : missing;
+    }
+    if (typeof raw === 'object' && raw !== null && 'value' in raw) {
+        const { value, unit: from } = raw as { value: unknown; unit?: unknown };
+        if (typeof value !== 'number') return missing;
+        const factor = typeof from === 'string' ? UNIT_FACTORS[unit][from.toLowerCase()] ?? 1 : 1;
+        return parseNutrient(value * factor, key);
+    }
+    if (typeof raw !== 'string') return missing;
+
+    const match = /(\d[\d,]*(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d[\d,]*(?:\.\d+)?))?\s*([a-zµ]+)?/i.exec(raw);
+    if (!match) return missing;
+    const low = Number(match[1].replace(/,/g, ''));
+    const value = match[2] ? (low + Number(match[2].replace(/,/g, ''))) / 2 : low;
+    const factor = match[3] ? UNIT_FACTORS[unit][match[3].toLowerCase()] ?? 1 : 1;
+    return parseNutrient(value * factor, key);
+};
+
+/** Normalises a nutrition block of any vintage; extras are only kept when they have a value. */
+export const normalizeNutrition = (raw: unknown): NutritionalInfo => {
+    const source = typeof raw === 'object' && raw !== null ? raw as Record<string, unknown> : {};
+    const info: NutritionalInfo = {
+        calories: parseNutrient(source.calories, 'calories'),
+        protein: parseNutrient(source.protein, 'protein'),
+        carbs: parseNutrient(source.carbs, 'carbs'),
+        fat: parseNutrient(source.fat, 'fat'),
+    };
+    for (const key of EXTRA_NUTRIENTS) {
+        const amount = parseNutrient(source[key], key);
+        if (amount.value !== null) info[key] = amount;
+    }
+    return info;
+};
+
+/** "450 kcal", "30g", "800mg"; "N/A" when unknown. */
+export const formatNutrient = (amount: NutrientAmount | undefined): string => {
+    if (!amount || amount.value === null) return 'N/A';
+    const value = amount.value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+    return amount.unit === 'kcal' ? `${value} kcal` : `${value}${amount.unit}`;
+};
+
+const mapNutrients = (info: NutritionalInfo, map: (amount: NutrientAmount, key: NutrientKey) => NutrientAmount): NutritionalInfo => {
+    const result = { ...info };
+    for (const key of ALL_NUTRIENTS) {
+        const amount = info[key];
+        if (amount) result[key] = map(amount, key);
+    }
+    return result;
+};
+
+/** Multiplies every value, e.g. per-serving values into a whole-batch total. */
+export const scaleNutrition = (info: NutritionalInfo, factor: number): NutritionalInfo =>
+    factor === 1 ? info : mapNutrients(info, amount => ({
+        ...amount,
+        value: amount.value === null ? null : roundNutrient(amount.value * factor),
+    }));
+
+/** Adds up several per-serving values, e.g. the meals in one day. Unknown values count as zero. */
+export const sumNutrition = (infos: NutritionalInfo[]): NutritionalInfo => {
+    const sum = (key: NutrientKey): NutrientAmount | undefined => {
+        const known = infos.map(i => i[key]?.value).filter((v): v is number => v !== null && v !== undefined);
+        if (known.length === 0) return undefined;
+        return { value: roundNutrient(known.reduce((a, b) => a + b, 0)), unit: NUTRIENT_UNITS[key] };
+    };
+    const info: NutritionalInfo = {
+        calories: sum('calories') ?? { value: null, unit: 'kcal' },
+        protein: sum('protein') ?? { value: null, unit: 'g' },
+        carbs: sum('carbs') ?? { value: null, unit: 'g' },
+        fat: sum('fat') ?? { value: null, unit: 'g' },
+    };
+    for (const key of EXTRA_NUTRIENTS) {
+        const amount = sum(key);
+        if (amount) info[key] = amount;
+    }
+    return info;
+};
+
+/** Share of `target` as a whole percentage, or null if either side is unknown. */
+export const percentOfTarget = (amount: NutrientAmount | undefined, target: number | undefined): number | null => {
+    if (!amount || amount.value === null || !target) return null;
+    return Math.round((amount.value / target) * 100);
+};
+
+export interface MacroBreakdown {
+    protein: number;
+    carbs: number;
+    fat: number;
+}
+
+/** Fraction (0-1) of macro calories from protein, carbs and fat; null without all three grams. */
+export const macroBreakdown = (info: NutritionalInfo): MacroBreakdown | null => {
+    const { protein, carbs, fat } = info;
+    if (protein.value === null || carbs.value === null || fat.value === null) return null;
+    const kcal = {
+        protein: protein.value * KCAL_PER_GRAM.protein,
+        carbs: carbs.value * KCAL_PER_GRAM.carbs,
+        fat: fat.value * KCAL_PER_GRAM.fat,
+    };
+    const total = kcal.protein + kcal.carbs + kcal.fat;
+    if (total === 0) return null;
+    return { protein: kcal.protein / total, carbs: kcal.carbs / total, fat: kcal.fat / total };
+};
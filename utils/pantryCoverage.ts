@@ -0,0 +1,111 @@
+import type { Ingredient, Recipe } from '../types';
+import { isOnHand, normalizeItemName } from './shoppingList';
+import { unitRatio } from './units';
+
+// How well a recipe fits what the user scanned: how much of it is already on
+// hand, what's missing, how much of the scanned stock it would use up and how
+// many of the pantry items about to expire it finds a use for.
+
+// Assumed to be in every kitchen, so never flagged as missing.
+const STAPLES = new Set([
+    'salt', 'pepper', 'black pepper', 'salt and pepper', 'water', 'ice', 'oil', 'olive oil', 'vegetable oil', 'cooking spray',
+]);
+
+export interface PantryCoverage {
+    // Share of the recipe's ingredients (staples aside) already on hand, 0 to 1
+    onHandShare: number;
+    // Ingredient lines that would have to be bought
+    missing: number;
+    // Share of the scanned stock the recipe uses up, 0 to 1, averaged over the scanned items
+    stockUsed: number;
+    // Items close to expiry that the recipe uses
+    expiringUsed: number;
+}
+
+export type CoverageSort = 'suggested' | 'onHand' | 'missing' | 'stockUsed' | 'expiring';
+
+export const COVERAGE_SORT_LABELS: Record<CoverageSort, string> = {
+    suggested: 'As suggested',
+    onHand: 'Most on hand',
+    missing: 'Fewest missing',
+    stockUsed: 'Uses most stock',
+    expiring: 'Uses expiring first',
+};
+
+export const COVERAGE_SORTS = Object.keys(COVERAGE_SORT_LABELS) as CoverageSort[];
+
+const haveKeysOf = (have: Ingredient[]) => have.map(i => normalizeItemName(i.name)).filter(Boolean);
+
+/** Indexes of the recipe's ingredient lines that aren't covered by `have`, staples aside. */
+export const findMissingIngredients = (recipe: Recipe, have: Ingredient[]): number[] => {
+    const haveKeys = haveKeysOf(have);
+    // With nothing reviewed there's nothing to compare against
+    if (haveKeys.length === 0) return [];
+    return recipe.ingredients.flatMap((ingredient, index) => {
+        const key = normalizeItemName(ingredient.item);
+        return key && !STAPLES.has(key) && !isOnHand(key, haveKeys) ? [index] : [];
+    });
+};
+
+// How much of one scanned item the recipe needs, 0 to 1. Without comparable
+// amounts (a "handful", "3" against "200 g") any use counts as using it all.
+const shareOfStockUsed = (stock: Ingredient, recipe: Recipe): number => {
+    const key = normalizeItemName(stock.name);
+    const lines = recipe.ingredients.filter(i => isOnHand(normalizeItemName(i.item), [key]));
+    if (lines.length === 0) return 0;
+    const available = stock.amount ?? null;
+    if (available === null || available <= 0) return 1;
+    let needed = 0;
+    for (const line of lines) {
+        const ratio = line.amount === null ? null : unitRatio(line.unit, stock.unit ?? null);
+        if (ratio === null) return 1;
+        needed += line.amount! * ratio;
+    }
+    return Math.min(1, needed / available);
+};
+
+/**
+ * Scores `recipe` against the reviewed ingredients, counting which of the
+ * `expiring` item names it uses; null when there's nothing to compare with.
+ */
+export const scorePantryCoverage = (recipe: Recipe, have: Ingredient[], expiring: string[] = []): PantryCoverage | null => {
+    const haveKeys = haveKeysOf(have);
+    if (haveKeys.length === 0) return null;
+    const counted = recipe.ingredients.filter(i => {
+        const key = normalizeItemName(i.item);
+        return key && !STAPLES.has(key);
+    }).length;
+    const missing = findMissingIngredients(recipe, have).length;
+    const stock = have.filter(i => normalizeItemName(i.name));
+    const recipeKeys = recipe.ingredients.map(i => normalizeItemName(i.item)).filter(Boolean);
+    const expiringKeys = expiring.map(normalizeItemName).filter(Boolean);
+    return {
+        onHandShare: counted === 0 ? 1 : (counted - missing) / counted,
+        missing,
+        stockUsed: stock.reduce((sum, item) => sum + shareOfStockUsed(item, recipe), 0) / stock.length,
+        expiringUsed: expiringKeys.filter(key => recipeKeys.some(recipeKey => isOnHand(recipeKey, [key]))).length,
+    };
+};
+
+/** Orders scored recipes for `sort`; ties (and 'suggested') keep the order they were generated in. */
+export const compareCoverage = (sort: CoverageSort) =>
+    (a: { index: number; coverage: PantryCoverage | null }, b: { index: number; coverage: PantryCoverage | null }): number => {
+        if (sort !== 'suggested' && a.coverage && b.coverage) {
+            const difference =
+                sort === 'onHand' ? b.coverage.onHandShare - a.coverage.onHandShare
+                : sort === 'missing' ? a.coverage.missing - b.coverage.missing
+                : sort === 'expiring' ? b.coverage.expiringUsed - a.coverage.expiringUsed || b.coverage.stockUsed - a.coverage.stockUsed
+                : b.coverage.stockUsed - a.coverage.stockUsed;
+            if (difference !== 0) return difference;
+        }
+        return a.index - b.index;
+    };
+
+/** "85% on hand · 1 missing · uses 60% of your stock · uses 2 expiring" */
+export const describeCoverage = (coverage: PantryCoverage): string =>
+    [
+        `${Math.round(coverage.onHandShare * 100)}% on hand`,
+        coverage.missing === 0 ? 'nothing missing' : `${coverage.missing} missing`,
+        `uses ${Math.round(coverage.stockUsed * 100)}% of your stock`,
+        ...(coverage.expiringUsed > 0 ? [`uses ${coverage.expiringUsed} expiring`] : []),
+    ].join(' · ');
@@ -0,0 +1,56 @@
+import type { Recipe, RecipeSeed } from '../types';
+import { normalizeItemName } from './shoppingList';
+
+// Duplicate suppression for generated recipes. Models asked for "something
+// different" often come back with the same dish under a new adjective, so
+// recipes are compared by a normalised name and by how much their ingredient
+// lists overlap.
+
+// Words that dress a name up without changing the dish.
+const NAME_FILLER = new Set([
+    'a', 'an', 'the', 'and', 'with', 'in', 'on', 'of', 'style', 'easy', 'quick', 'simple', 'classic',
+    'homemade', 'best', 'healthy', 'hearty', 'delicious', 'perfect', 'ultimate', 'speedy', 'rustic',
+]);
+
+// On hand in every kitchen; sharing them says nothing about two recipes being alike.
+const STAPLES = new Set(['salt', 'pepper', 'black pepper', 'salt and pepper', 'water', 'oil', 'olive oil', 'vegetable oil']);
+
+// Share of ingredients (intersection over union) from which two recipes count as the same.
+const DUPLICATE_OVERLAP = 0.8;
+
+/** "The Easy Chicken & Rice Bowl" and "Rice and Chicken Bowls" both become "bowl chicken rice". */
+export const recipeNameKey = (name: string): string =>
+    normalizeItemName(name.replace(/&/g, ' and ').replace(/,/g, ' '))
+        .split(' ')
+        .filter(word => word && !NAME_FILLER.has(word))
+        .sort()
+        .join(' ');
+
+const ingredientKeys = (recipe: Recipe) =>
+    new Set(recipe.ingredients.map(i => normalizeItemName(i.item)).filter(key => key && !STAPLES.has(key)));
+
+/** Intersection over union of the two recipes' ingredients, ignoring staples (0 to 1). */
+export const ingredientOverlap = (a: Recipe, b: Recipe): number => {
+    const keysA = ingredientKeys(a);
+    const keysB = ingredientKeys(b);
+    if (keysA.size === 0 || keysB.size === 0) return 0;
+    let shared = 0;
+    keysA.forEach(key => {
+        if (keysB.has(key)) shared++;
+    });
+    return shared / (keysA.size + keysB.size - shared);
+};
+
+export const isSameRecipe = (a: Recipe, b: Recipe): boolean =>
+    recipeNameKey(a.recipeName) === recipeNameKey(b.recipeName) || ingredientOverlap(a, b) >= DUPLICATE_OVERLAP;
+
+/** The first of `others` that `recipe` duplicates, if any. */
+export const findDuplicate = (recipe: Recipe, others: Recipe[]): Recipe | undefined =>
+    others.find(other => isSameRecipe(recipe, other));
+
+/** What the server needs to know about a recipe to ask for variations of it. */
+export const toRecipeSeed = (recipe: Recipe): RecipeSeed => ({
+    recipeName: recipe.recipeName,
+    description: recipe.description,
+    ingredients: recipe.ingredients.map(i => i.item),
+});
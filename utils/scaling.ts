@@ -0,0 +1,72 @@
+import type { Quantity, Recipe } from '../types';
+import { isDecimalUnit } from './ingredients';
+
+// Local serving rescaling. Scaled amounts are snapped to values a cook would
+// actually measure: kitchen fractions for cups and spoons, halves for countable
+// things like eggs or cloves, and round numbers for grams and millilitres.
+
+// Measured with cups, spoons or scales in imperial recipes.
+const FRACTIONAL_UNITS = new Set(['tsp', 'tbsp', 'fl oz', 'cup', 'pint', 'quart', 'gallon', 'oz', 'lb']);
+
+const KITCHEN_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 3, 3 / 8, 1 / 2, 5 / 8, 2 / 3, 3 / 4, 7 / 8, 1];
+
+const roundToStep = (value: number, step: number) => Math.round(value / step) * step;
+
+const nearestKitchenFraction = (value: number): number => {
+    const whole = Math.floor(value);
+    const fraction = value - whole;
+    const closest = KITCHEN_FRACTIONS.reduce((best, f) => Math.abs(f - fraction) < Math.abs(best - fraction) ? f : best);
+    return whole + closest;
+};
+
+// Coarser steps as amounts grow: 2.5 g of yeast matters, 1002 g of flour doesn't.
+const roundMetric = (value: number): number => {
+    if (value >= 1000) return roundToStep(value, 10);
+    if (value >= 250) return roundToStep(value, 5);
+    if (value >= 20) return roundToStep(value, 1);
+    if (value >= 2) return roundToStep(value, 0.5);
+    return Math.max(roundToStep(value, 0.1), 0.1);
+};
+
+const roundFractional = (value: number): number => {
+    if (value >= 10) return Math.round(value);
+    return Math.max(nearestKitchenFraction(value), 1 / 8);
+};
+
+// Eggs, cloves, cans, pinches: nobody measures 1.37 of them.
+const roundCount = (value: number): number => {
+    if (value >= 3) return Math.round(value);
+    if (value >= 1) return roundToStep(value, 0.5);
+    return Math.max(roundToStep(value, 0.25), 0.25);
+};
+
+/** Rounds a scaled amount to something measurable for its unit. */
+export const roundAmount = (value: number, unit: string | null): number => {
+    if (isDecimalUnit(unit)) return roundMetric(value);
+    if (unit && FRACTIONAL_UNITS.has(unit)) return roundFractional(value);
+    return roundCount(value);
+};
+
+export const scaleQuantity = <T extends Quantity>(quantity: T, factor: number): T => {
+    if (quantity.amount === null || factor === 1) return quantity;
+    const scaled: T = { ...quantity, amount: roundAmount(quantity.amount * factor, quantity.unit) };
+    if (quantity.amountMax !== undefined && quantity.amountMax !== null) {
+        scaled.amountMax = roundAmount(quantity.amountMax * factor, quantity.unit);
+        // Rounding can collapse a narrow range ("1-1.2 cups" → "1-1 cup")
+        if (scaled.amountMax <= (scaled.amount ?? 0)) delete scaled.amountMax;
+    }
+    return scaled;
+};
+
+/**
+ * Rescales a recipe written for `fromServings` to `toServings`. Nutrition is per
+ * serving and therefore unchanged; use `scaleNutrition` for whole-batch totals.
+ */
+export const scaleRecipe = (recipe: Recipe, fromServings: number, toServings: number): Recipe => {
+    const factor = toServings / fromServings;
+    if (factor === 1) return recipe;
+    return {
+        ...recipe,
+        ingredients: recipe.ingredients.map(ingredient => scaleQuantity(ingredient, factor)),
+    };
+};
@@ -0,0 +1,82 @@
+// Rough shelf-life estimates for pantry items, so the app can nudge the user
+// to cook with what's about to go off. Days are counted from when an item is
+// added and assume it's stored the usual way (fridge for dairy, meat and most
+// produce). Anything not in the table is treated as keeping indefinitely.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Within this many days an item counts as expiring soon.
+export const EXPIRING_SOON_DAYS = 3;
+
+// First match wins, so more specific words come before the ones they contain
+// ("peanut butter" keeps, "butter" doesn't; "frozen peas" keeps, "peas" don't).
+const SHELF_LIFE: { match: RegExp; days: number | null }[] = [
+    { match: /\b(frozen|dried|canned|tinned|powder|salt|black pepper|peppercorn|spice|seasoning|ground (?:cumin|cinnamon|ginger|coriander|nutmeg)|peanut butter|coconut milk|stock cube|flour|sugar|rice|pasta|noodle|lentil|oil|vinegar|honey|syrup|sauce)\b/, days: null },
+    { match: /\b(fish|salmon|cod|prawn|shrimp|seafood|mussel|mince|ground beef|ground pork|ground turkey)s?\b/, days: 2 },
+    { match: /\b(chicken|turkey|pork|beef|lamb|steak|sausage)s?\b/, days: 3 },
+    { match: /\b(bacon|ham|chorizo|salami)\b/, days: 7 },
+    { match: /\b(milk|cream|creme fraiche|ricotta|mozzarella|feta|cottage cheese)\b/, days: 7 },
+    { match: /\b(yogurt|yoghurt)\b/, days: 10 },
+    { match: /\b(parmesan|cheddar|hard cheese)\b/, days: 30 },
+    { match: /\bcheese\b/, days: 14 },
+    { match: /\bbutter\b/, days: 30 },
+    { match: /\beggs?\b/, days: 21 },
+    { match: /\b(tofu|tempeh)\b/, days: 5 },
+    { match: /\b(bread|baguette|bun|roll|tortilla|pita|naan|wrap|croissant|bagel)s?\b/, days: 4 },
+    { match: /\b(berr(?:y|ies)|raspberr(?:y|ies)|strawberr(?:y|ies)|blueberr(?:y|ies))\b/, days: 3 },
+    { match: /\b(basil|parsley|coriander|cilantro|mint|dill|chive|herb)s?\b/, days: 4 },
+    { match: /\b(lettuce|spinach|rocket|arugula|salad|kale|watercress)\b/, days: 4 },
+    { match: /\b(mushroom|avocado|banana|asparagus|spring onion|scallion|green bean)s?\b/, days: 5 },
+    { match: /\b(tomato(?:es)?|cucumber|courgette|zucchini|aubergine|eggplant|bell pepper|pepper|broccoli|cauliflower|leek|celery|peach|plum|pear|grape)s?\b/, days: 7 },
+    { match: /\b(carrot|cabbage|lemon|lime|orange|apple|ginger|beetroot)s?\b/, days: 21 },
+    { match: /\b(potato(?:es)?|sweet potato(?:es)?|onion|shallot|garlic|squash|pumpkin)s?\b/, days: 30 },
+];
+
+/** Typical days `name` keeps for, or null when it keeps indefinitely (or isn't in the table). */
+export const shelfLifeDays = (name: string): number | null => {
+    const lower = name.toLowerCase();
+    return SHELF_LIFE.find(entry => entry.match.test(lower))?.days ?? null;
+};
+
+/** Estimated expiry for `name` bought at `from`; null when it keeps. */
+export const estimateExpiry = (name: string, from: number = Date.now()): number | null => {
+    const days = shelfLifeDays(name);
+    return days === null ? null : from + days * DAY_MS;
+};
+
+/** Whole days from the start of today until `expiresAt`; negative once it has passed. */
+export const daysUntil = (expiresAt: number, now: number = Date.now()): number => {
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const day = new Date(expiresAt);
+    day.setHours(0, 0, 0, 0);
+    return Math.round((day.getTime() - today.getTime()) / DAY_MS);
+};
+
+export const isExpiringSoon = (expiresAt: number | null, now: number = Date.now()): boolean =>
+    expiresAt !== null && daysUntil(expiresAt, now) <= EXPIRING_SOON_DAYS;
+
+/** "Expired", "Expires today", "Expires tomorrow", "Expires in 5 days" or "Keeps". */
+export const formatExpiry = (expiresAt: number | null, now: number = Date.now()): string => {
+    if (expiresAt === null) return "Keeps";
+    const days = daysUntil(expiresAt, now);
+    if (days < 0) return "Expired";
+    if (days === 0) return "Expires today";
+    if (days === 1) return "Expires tomorrow";
+    return `Expires in ${days} days`;
+};
+
+/** Local YYYY-MM-DD for a date input; empty for items that keep. */
+export const toDateInputValue = (expiresAt: number | null): string => {
+    if (expiresAt === null) return '';
+    const date = new Date(expiresAt);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Reads a date input's value back as the end of that local day; null when cleared. */
+export const fromDateInputValue = (value: string): number | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59).getTime();
+};
@@ -0,0 +1,173 @@
+import type { Ingredient, Quantity, Recipe, RecipeIngredient, UnitSystem } from '../types';
+import { formatQuantity } from './ingredients';
+import { addQuantities, convertQuantity } from './units';
+
+// Builds a shopping list from chosen recipes: everything they need, minus what
+// was scanned or typed in on the review screen, merged across recipes and
+// grouped the way a supermarket is laid out. Pure functions, so it works offline.
+
+export type Aisle =
+    | 'Produce'
+    | 'Meat & Seafood'
+    | 'Dairy & Eggs'
+    | 'Bakery'
+    | 'Pantry'
+    | 'Spices & Seasonings'
+    | 'Frozen'
+    | 'Other';
+
+// Order aisles appear in the list.
+export const AISLES: Aisle[] = ['Produce', 'Meat & Seafood', 'Dairy & Eggs', 'Bakery', 'Pantry', 'Spices & Seasonings', 'Frozen', 'Other'];
+
+// First match wins, so more specific words come before the ones they contain
+// ("peanut butter" is Pantry, "butter" is Dairy).
+const AISLE_KEYWORDS: [Aisle, RegExp][] = [
+    ['Frozen', /\bfrozen\b|\bice cream\b/],
+    ['Produce', /\b(bell pepper|red pepper|green pepper|yellow pepper|chili pepper|green bean|sweet potato|garlic|ginger)\b/],
+    ['Pantry', /\b(peanut butter|coconut milk|stock|broth|vinegar|oil|soy sauce|sauce|paste|pasta|spaghetti|noodle|rice|quinoa|couscous|lentil|chickpea|bean|flour|sugar|honey|syrup|oat|cereal|nut|almond|walnut|cashew|seed|tin|can|canned|chocolate|cocoa|baking|yeast|cornstarch|breadcrumb|stock cube|tomato paste|passata|mustard|ketchup|mayonnaise|jam)\b/],
+    ['Spices & Seasonings', /\b(salt|pepper(?:corn)?s?|paprika|cumin|cinnamon|nutmeg|turmeric|oregano|thyme|rosemary|chili powder|chilli flakes|curry powder|garam masala|bay lea(?:f|ves)|spice|seasoning|vanilla|clove)\b/],
+    ['Meat & Seafood', /\b(chicken|beef|pork|lamb|turkey|bacon|sausage|ham|mince|steak|fish|salmon|tuna|cod|prawn|shrimp|seafood|anchov(?:y|ies)|chorizo)\b/],
+    ['Dairy & Eggs', /\b(milk|butter|cheese|cheddar|mozzarella|parmesan|feta|yogurt|yoghurt|cream|egg|ghee|creme fraiche)\b/],
+    ['Bakery', /\b(bread|baguette|bun|roll|tortilla|pita|naan|wrap|croissant|bagel)\b/],
+    ['Produce', /\b(apple|banana|lemon|lime|orange|berr(?:y|ies)|tomato|potato|onion|shallot|garlic|ginger|carrot|celery|pepper|chili|chilli|lettuce|spinach|kale|cabbage|broccoli|cauliflower|courgette|zucchini|aubergine|eggplant|cucumber|mushroom|avocado|herb|basil|parsley|coriander|cilantro|mint|dill|scallion|spring onion|leek|pea|corn|squash|pumpkin|fruit|vegetable)s?\b/],
+];
+
+// Always on tap; never worth a line on the list.
+const NEVER_LIST = new Set(['water', 'ice', 'tap water', 'warm water', 'cold water', 'boiling water']);
+
+// Words that describe preparation or size rather than what to buy.
+const DESCRIPTORS = /\b(fresh|freshly|large|small|medium|chopped|diced|minced|sliced|crushed|ripe|raw|boneless|skinless|organic|whole|dried|finely|roughly|thinly|grated|shredded|cooked|uncooked|peeled|softened|melted|room temperature|to taste|optional)\b/g;
+
+const singularize = (word: string) => {
+    if (word.length <= 3 || word.endsWith('ss')) return word;
+    if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+    if (/(?:ch|sh|x|o)es$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s')) return word.slice(0, -1);
+    return word;
+};
+
+/** Lowercased, singular name without preparation words: "Fresh Tomatoes, diced" → "tomato". */
+export const normalizeItemName = (name: string): string =>
+    name
+        .toLowerCase()
+        .replace(/\([^)]*\)/g, ' ')
+        .split(',')[0]
+        .replace(DESCRIPTORS, ' ')
+        .replace(/[^a-z\s-]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(singularize)
+        .join(' ');
+
+const containsWords = (haystack: string, needle: string) =>
+    needle.length > 0 && new RegExp(`(?:^|\\s)${needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\s|$)`).test(haystack);
+
+/** Whether normalised name `key` is covered by one of `haveKeys`: "chicken" on hand covers "chicken thigh"; "tomato" covers "cherry tomato". */
+export const isOnHand = (key: string, haveKeys: string[]) =>
+    haveKeys.some(have => have === key || containsWords(key, have) || containsWords(have, key));
+
+export const aisleFor = (item: string, unit?: string | null): Aisle => {
+    if (unit === 'can') return 'Pantry';
+    const name = normalizeItemName(item);
+    return AISLE_KEYWORDS.find(([, pattern]) => pattern.test(name))?.[0] ?? 'Other';
+};
+
+export interface ShoppingItem {
+    key: string;
+    // Display name, taken from the first recipe that needs it
+    item: string;
+    // One entry per set of compatible units; usually just one
+    quantities: Quantity[];
+    aisle: Aisle;
+    // Names of the recipes that use it
+    recipes: string[];
+    // Matched something the user already has
+    onHand: boolean;
+}
+
+export interface ShoppingGroup {
+    aisle: Aisle;
+    items: ShoppingItem[];
+}
+
+const mergeQuantity = (quantities: Quantity[], next: RecipeIngredient): Quantity[] => {
+    const quantity: Quantity = { amount: next.amount, amountMax: next.amountMax, unit: next.unit };
+    if (quantity.amount === null) {
+        // Only keep a vague "to taste" if there's nothing measurable
+        return quantities.length > 0 ? quantities : [{ amount: null, unit: null, note: next.note }];
+    }
+    const measured = quantities.filter(q => q.amount !== null);
+    for (let i = 0; i < measured.length; i++) {
+        const sum = addQuantities(measured[i], quantity);
+        if (sum) return measured.map((q, j) => (j === i ? sum : q));
+    }
+    return [...measured, quantity];
+};
+
+// "Salt and pepper to taste" is two things to buy.
+const splitCombined = (ingredient: RecipeIngredient): RecipeIngredient[] =>
+    ingredient.amount === null && / and /i.test(ingredient.item)
+        ? ingredient.item.split(/ and /i).map(item => ({ ...ingredient, item: item.trim() }))
+        : [ingredient];
+
+/** Every ingredient the recipes need, merged by name, with `onHand` set from `have`. */
+export const buildShoppingList = (recipes: Recipe[], have: Ingredient[]): ShoppingItem[] => {
+    const haveKeys = have.map(i => normalizeItemName(i.name)).filter(Boolean);
+    const items = new Map<string, ShoppingItem>();
+
+    for (const recipe of recipes) {
+        for (const ingredient of recipe.ingredients.flatMap(splitCombined)) {
+            const key = normalizeItemName(ingredient.item);
+            if (!key || NEVER_LIST.has(key)) continue;
+            const existing = items.get(key);
+            if (existing) {
+                existing.quantities = mergeQuantity(existing.quantities, ingredient);
+                if (!existing.recipes.includes(recipe.recipeName)) existing.recipes.push(recipe.recipeName);
+            } else {
+                items.set(key, {
+                    key,
+                    item: ingredient.item,
+                    quantities: mergeQuantity([], ingredient),
+                    aisle: aisleFor(ingredient.item, ingredient.unit),
+                    recipes: [recipe.recipeName],
+                    onHand: isOnHand(key, haveKeys),
+                });
+            }
+        }
+    }
+    return Array.from(items.values());
+};
+
+export const groupByAisle = (items: ShoppingItem[]): ShoppingGroup[] =>
+    AISLES
+        .map(aisle => ({
+            aisle,
+            items: items.filter(i => i.aisle === aisle).sort((a, b) => a.item.localeCompare(b.item)),
+        }))
+        .filter(group => group.items.length > 0);
+
+/** "2 cups + 3 tbsp", or "" when only vague amounts were given. */
+export const formatShoppingQuantity = (item: ShoppingItem, system: UnitSystem = 'original'): string =>
+    item.quantities
+        .map(q => formatQuantity(q.amount === null ? q : convertQuantity(q, system, item.item)))
+        .filter(Boolean)
+        .join(' + ');
+
+const formatLine = (item: ShoppingItem, system: UnitSystem) => {
+    const quantity = formatShoppingQuantity(item, system);
+    return quantity ? `${item.item} (${quantity})` : item.item;
+};
+
+export const shoppingListToText = (groups: ShoppingGroup[], checked: Set<string>, system: UnitSystem = 'original'): string =>
+    groups
+        .map(group => [
+            group.aisle.toUpperCase(),
+            ...group.items.map(item => `${checked.has(item.key) ? '[x]' : '[ ]'} ${formatLine(item, system)}`),
+        ].join('\n'))
+        .join('\n\n');
+
+export const shoppingListToMarkdown = (groups: ShoppingGroup[], checked: Set<string>, system: UnitSystem = 'original'): string =>
+    ['# Shopping List', ...groups.map(group => [
+        `## ${group.aisle}`,
+        ...group.items.map(item => `- [${checked.has(item.key) ? 'x' : ' '}] ${formatLine(item, system)}`),
+    ].join('\n'))].join('\n\n');
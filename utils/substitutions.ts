@@ -0,0 +1,294 @@
+import type { DietaryProfile, Recipe, RecipeIngredient, Substitute } from '../types';
+import { findDietaryConflicts } from './allergens';
+import { normalizeItemName } from './shoppingList';
+
+// Substitutes for ingredients the user doesn't have. A built-in table covers the
+// common kitchen swaps offline; anything it doesn't know goes to the AI. Choosing a
+// substitute rewrites the recipe's ingredient line and the instructions that mention it.
+
+interface TableEntry {
+    // Tested against the normalised name ("buttermilk", "chicken stock")
+    match: RegExp;
+    // Skips the entry when the raw ingredient text matches, e.g. herbs that are already dried
+    unless?: RegExp;
+    // Only applies to lines in these units (null = a plain count); the ratio assumes them
+    fromUnits?: (string | null)[];
+    substitutes: Substitute[];
+}
+
+const HERBS = ['basil', 'oregano', 'thyme', 'rosemary', 'parsley', 'dill', 'tarragon', 'mint', 'sage'];
+
+const SUBSTITUTION_TABLE: TableEntry[] = [
+    {
+        match: /^(?:low-fat )?buttermilk$/,
+        substitutes: [
+            { item: 'milk with lemon juice', ratio: 1, note: '1 tbsp lemon juice per cup of milk, left for 5 minutes to thicken' },
+            { item: 'plain yogurt thinned with milk', ratio: 1, note: '3 parts yogurt to 1 part milk' },
+        ],
+    },
+    {
+        match: /^sour cream$/,
+        substitutes: [{ item: 'Greek yogurt', ratio: 1 }, { item: 'crème fraîche', ratio: 1 }],
+    },
+    {
+        match: /^cr[eè]me fra[iî]che$/,
+        substitutes: [{ item: 'sour cream', ratio: 1 }, { item: 'Greek yogurt', ratio: 1, note: "stir in off the heat so it doesn't split" }],
+    },
+    {
+        match: /^(?:heavy|double|whipping) cream$/,
+        substitutes: [
+            { item: 'milk and melted butter', ratio: 1, note: '3/4 cup milk to 1/4 cup butter; will not whip' },
+            { item: 'evaporated milk', ratio: 1 },
+        ],
+    },
+    {
+        match: /^(?:greek |plain |natural )?(?:yogurt|yoghurt)$/,
+        substitutes: [{ item: 'sour cream', ratio: 1 }],
+    },
+    {
+        match: /^cream cheese$/,
+        substitutes: [{ item: 'mascarpone', ratio: 1 }, { item: 'ricotta, blended smooth', ratio: 1 }],
+    },
+    {
+        match: /^mascarpone$/,
+        substitutes: [{ item: 'cream cheese', ratio: 1 }],
+    },
+    {
+        match: /^ricotta(?: cheese)?$/,
+        substitutes: [{ item: 'cottage cheese', ratio: 1, note: 'blend smooth for fillings' }],
+    },
+    {
+        match: /^(?:parmesan|parmigiano reggiano)(?: cheese)?$/,
+        substitutes: [{ item: 'pecorino romano', ratio: 1 }, { item: 'grana padano', ratio: 1 }],
+    },
+    {
+        match: /^feta(?: cheese)?$/,
+        substitutes: [{ item: 'goat cheese', ratio: 1 }],
+    },
+    {
+        match: /^(?:whole |semi-skimmed |skim )?milk$/,
+        substitutes: [{ item: 'oat milk', ratio: 1 }, { item: 'evaporated milk mixed with water', ratio: 1, note: 'equal parts' }],
+    },
+    {
+        match: /^(?:unsalted |salted )?butter$/,
+        substitutes: [
+            { item: 'olive oil', ratio: 0.75, note: 'for cooking rather than baking' },
+            { item: 'coconut oil', ratio: 1 },
+        ],
+    },
+    {
+        match: /^egg$/,
+        fromUnits: [null],
+        substitutes: [
+            { item: 'ground flaxseed mixed with water', ratio: 1, unit: 'tbsp', note: '1 tbsp flaxseed and 3 tbsp water per egg, rested 5 minutes; for baking' },
+            { item: 'mashed banana', ratio: 0.25, unit: 'cup', note: 'for sweet bakes' },
+        ],
+    },
+    {
+        match: /^(?:light |dark )?brown sugar$/,
+        substitutes: [
+            { item: 'white sugar with molasses', ratio: 1, note: '1 tbsp molasses per cup of sugar' },
+            { item: 'white sugar', ratio: 1 },
+        ],
+    },
+    {
+        match: /^honey$/,
+        substitutes: [{ item: 'maple syrup', ratio: 1 }, { item: 'agave syrup', ratio: 1 }],
+    },
+    {
+        match: /^(?:pure )?maple syrup$/,
+        substitutes: [{ item: 'honey', ratio: 1 }],
+    },
+    {
+        match: /^lemon juice$/,
+        substitutes: [{ item: 'lime juice', ratio: 1 }, { item: 'white wine vinegar', ratio: 0.5 }],
+    },
+    {
+        match: /^lime juice$/,
+        substitutes: [{ item: 'lemon juice', ratio: 1 }],
+    },
+    {
+        match: /^(?:dry )?white wine$/,
+        substitutes: [{ item: 'stock with a splash of white wine vinegar', ratio: 1 }],
+    },
+    {
+        match: /^(?:dry )?red wine$/,
+        substitutes: [{ item: 'stock with a splash of red wine vinegar', ratio: 1 }],
+    },
+    {
+        match: /^rice(?: wine)? vinegar$/,
+        substitutes: [{ item: 'apple cider vinegar', ratio: 1 }],
+    },
+    {
+        match: /^(?:white|red) wine vinegar$/,
+        substitutes: [{ item: 'apple cider vinegar', ratio: 1 }],
+    },
+    {
+        match: /^balsamic vinegar$/,
+        substitutes: [{ item: 'red wine vinegar with a pinch of sugar', ratio: 1 }],
+    },
+    {
+        match: /^shallot$/,
+        fromUnits: [null],
+        substitutes: [{ item: 'onion', ratio: 0.5 }],
+    },
+    {
+        match: /^(?:red |white |yellow |brown )?onion$/,
+        fromUnits: [null],
+        substitutes: [{ item: 'shallots', ratio: 2 }, { item: 'leek', ratio: 1 }],
+    },
+    {
+        match: /^(?:scallion|spring onion|green onion)$/,
+        substitutes: [{ item: 'chives', ratio: 1 }],
+    },
+    {
+        match: /^garlic(?: clove)?$/,
+        fromUnits: ['clove', null],
+        substitutes: [{ item: 'garlic powder', ratio: 0.125, unit: 'tsp' }],
+    },
+    {
+        match: /^ginger$/,
+        unless: /\bground\b/i,
+        fromUnits: ['tbsp'],
+        substitutes: [{ item: 'ground ginger', ratio: 0.25, unit: 'tsp' }],
+    },
+    ...HERBS.map(herb => ({
+        match: new RegExp(`^${herb}(?: lea(?:f|ve))?$`),
+        unless: /\bdried\b/i,
+        fromUnits: ['tsp', 'tbsp', 'cup'],
+        substitutes: [{ item: `dried ${herb}`, ratio: 1 / 3, note: 'dried herbs are stronger' }],
+    })),
+    {
+        match: /^(?:cilantro|coriander)(?: lea(?:f|ve))?$/,
+        unless: /\b(?:ground|seeds?)\b/i,
+        substitutes: [{ item: 'flat-leaf parsley', ratio: 1, note: 'add a squeeze of lime' }],
+    },
+    {
+        match: /^(?:cornstarch|cornflour)$/,
+        substitutes: [{ item: 'plain flour', ratio: 2, note: 'cook a few minutes longer to thicken' }],
+    },
+    {
+        match: /^(?:self-raising|self-rising) flour$/,
+        substitutes: [{ item: 'plain flour with baking powder', ratio: 1, note: '1 1/2 tsp baking powder per cup of flour' }],
+    },
+    {
+        match: /^baking powder$/,
+        substitutes: [{ item: 'baking soda', ratio: 0.25, note: 'plus twice as much cream of tartar' }],
+    },
+    {
+        match: /^(?:panko )?breadcrumb$/,
+        substitutes: [{ item: 'crushed crackers', ratio: 1 }, { item: 'rolled oats', ratio: 1 }],
+    },
+    {
+        match: /^(?:light |dark )?soy sauce$/,
+        substitutes: [{ item: 'tamari', ratio: 1 }, { item: 'coconut aminos', ratio: 1 }],
+    },
+    {
+        match: /^fish sauce$/,
+        substitutes: [{ item: 'soy sauce with a squeeze of lime', ratio: 1 }],
+    },
+    {
+        match: /^(?:chicken|beef) (?:stock|broth)$/,
+        substitutes: [{ item: 'vegetable stock', ratio: 1 }],
+    },
+    {
+        match: /^vegetable (?:stock|broth)$/,
+        substitutes: [{ item: 'water with a stock cube', ratio: 1 }],
+    },
+    {
+        match: /^tomato (?:paste|puree)$/,
+        substitutes: [{ item: 'tomato passata', ratio: 3, note: 'simmer a little longer to reduce' }, { item: 'ketchup', ratio: 1 }],
+    },
+    {
+        match: /^(?:chilli|chili|red pepper) flake$/,
+        substitutes: [{ item: 'cayenne pepper', ratio: 0.5 }],
+    },
+    {
+        match: /^(?:red |green )?(?:chilli|chili)(?: pepper)?$/,
+        fromUnits: [null],
+        substitutes: [{ item: 'chili flakes', ratio: 0.5, unit: 'tsp' }],
+    },
+    {
+        match: /^mayonnaise$/,
+        substitutes: [{ item: 'Greek yogurt', ratio: 1 }],
+    },
+    {
+        match: /^(?:bacon|pancetta)$/,
+        substitutes: [{ item: 'smoked sausage', ratio: 1 }],
+    },
+    {
+        match: /^(?:baby )?spinach$/,
+        substitutes: [{ item: 'kale, stalks removed', ratio: 1 }],
+    },
+];
+
+/** Substitutes from the built-in table for one ingredient line; empty when it has none. */
+export const localSubstitutes = (ingredient: RecipeIngredient): Substitute[] => {
+    const key = normalizeItemName(ingredient.item);
+    const entry = SUBSTITUTION_TABLE.find(e =>
+        e.match.test(key)
+        && !(e.unless && e.unless.test(ingredient.item))
+        && (!e.fromUnits || e.fromUnits.includes(ingredient.unit)));
+    return entry ? entry.substitutes : [];
+};
+
+const roundAmount = (value: number) => Math.round(value * 1000) / 1000;
+
+/** The ingredient line rewritten to use `substitute`, with its amount converted. */
+export const substituteLine = (ingredient: RecipeIngredient, substitute: Substitute): RecipeIngredient => {
+    // Preparation for the original ("minced") rarely fits a substitute measured another way
+    const keepsUnit = substitute.unit === undefined;
+    const note = [keepsUnit ? ingredient.note : undefined, substitute.note].filter(Boolean).join('; ');
+    return {
+        item: substitute.item,
+        amount: ingredient.amount === null ? null : roundAmount(ingredient.amount * substitute.ratio),
+        ...(ingredient.amountMax != null && { amountMax: roundAmount(ingredient.amountMax * substitute.ratio) }),
+        unit: keepsUnit ? ingredient.unit : substitute.unit ?? null,
+        ...(note && { note }),
+    };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Ways the instructions may refer to an ingredient, most specific first:
+// "fresh basil leaves" → "fresh basil leaves", "basil leaf", "basil".
+const mentionsOf = (item: string): string[] => {
+    const written = item.toLowerCase().replace(/\([^)]*\)/g, ' ').split(',')[0].replace(/\s+/g, ' ').trim();
+    const key = normalizeItemName(item);
+    const words = key.split(' ');
+    const candidates = [written, key, words.length > 1 && /^(?:leaf|clove|fillet|breast|thigh)$/.test(words[words.length - 1]) ? words.slice(0, -1).join(' ') : ''];
+    return [...new Set(candidates.filter(Boolean))];
+};
+
+/** Replaces mentions of `item` in one instruction, keeping a capital letter at the start of a sentence. */
+export const replaceMentions = (text: string, item: string, replacement: string): string => {
+    for (const mention of mentionsOf(item)) {
+        const pattern = new RegExp(`\\b${escapeRegExp(mention)}(?:e?s)?\\b`, 'gi');
+        if (!pattern.test(text)) continue;
+        pattern.lastIndex = 0;
+        return text.replace(pattern, found =>
+            /^[A-Z]/.test(found) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement);
+    }
+    return text;
+};
+
+/** `recipe` with ingredient line `index` swapped for `substitute`, instructions included. */
+export const applySubstitution = (recipe: Recipe, index: number, substitute: Substitute): Recipe => {
+    const original = recipe.ingredients[index];
+    if (!original) return recipe;
+    return {
+        ...recipe,
+        ingredients: recipe.ingredients.map((ingredient, i) => i === index ? substituteLine(ingredient, substitute) : ingredient),
+        instructions: recipe.instructions.map(step => replaceMentions(step, original.item, substitute.item)),
+    };
+};
+
+/** Drops substitutes that would bring in something the profile rules out, or that repeat the original. */
+export const filterSafeSubstitutes = (recipe: Recipe, index: number, substitutes: Substitute[], profile: DietaryProfile): Substitute[] => {
+    const originalKey = normalizeItemName(recipe.ingredients[index]?.item ?? '');
+    return substitutes.filter(substitute => {
+        if (normalizeItemName(substitute.item) === originalKey) return false;
+        const conflicts = findDietaryConflicts(applySubstitution(recipe, index, substitute), profile);
+        return !conflicts.some(c => c.ingredient === substitute.item);
+    });
+};
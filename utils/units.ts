@@ -0,0 +1,212 @@
+import type { Quantity, Recipe, UnitSystem } from '../types';
+import { formatQuantity, parseQuantity } from './ingredients';
+import { roundAmount } from './scaling';
+
+// Metric/imperial conversion for ingredient quantities and instruction text.
+// Spoon measures are left alone in both systems since they're used everywhere,
+// and counts, cloves, cans etc. have nothing to convert.
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+    mg: 0.001, g: 1, kg: 1000, oz: 28.3495, lb: 453.592,
+};
+
+const ML_PER_UNIT: Record<string, number> = {
+    ml: 1, l: 1000, tsp: 4.92892, tbsp: 14.7868, 'fl oz': 29.5735,
+    cup: 236.588, pint: 473.176, quart: 946.353, gallon: 3785.41,
+};
+
+const METRIC_UNITS = new Set(['mg', 'g', 'kg', 'ml', 'l']);
+const SPOON_UNITS = new Set(['tsp', 'tbsp']);
+
+// Grams per US cup for staples that metric recipes weigh rather than measure.
+// Longer names first so "brown sugar" wins over "sugar".
+const GRAMS_PER_CUP: [RegExp, number][] = [
+    [/\bbread flour\b/, 130],
+    [/\b(?:whole ?wheat|wholemeal) flour\b/, 120],
+    [/\bflour\b/, 125],
+    [/\b(?:powdered|icing|confectioners'?) sugar\b/, 120],
+    [/\bbrown sugar\b/, 220],
+    [/\bsugar\b/, 200],
+    [/\bpeanut butter\b/, 258],
+    [/\bbutter\b/, 227],
+    [/\brice\b/, 185],
+    [/\boats\b/, 90],
+    [/\bcocoa\b/, 85],
+    [/\bbread ?crumbs\b/, 110],
+    [/\bchocolate chips\b/, 170],
+    [/\bhoney\b/, 340],
+    [/\b(?:grated|shredded) (?:\w+ )?cheese\b|\bparmesan\b/, 100],
+    [/\balmonds\b/, 145],
+    [/\bwalnuts\b/, 120],
+];
+
+// "rice vinegar", "coconut milk", "sugar syrup": liquids despite the staple in the name.
+const LIQUID_RE = /\b(vinegar|milk|wine|oil|syrup|stock|broth|water|juice|sauce|cream)\b/;
+
+/** Grams per cup for an ingredient, when it's a staple we know the density of. */
+export const gramsPerCup = (item: string): number | null => {
+    const name = item.toLowerCase();
+    if (LIQUID_RE.test(name)) return null;
+    return GRAMS_PER_CUP.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+};
+
+// Converted metric amounts are rounded to what a scale or jug shows.
+const roundMetric = (value: number): number => {
+    if (value >= 1000) return Math.round(value / 50) * 50;
+    if (value >= 100) return Math.round(value / 10) * 10;
+    if (value >= 10) return Math.round(value / 5) * 5;
+    return Math.max(Math.round(value), 1);
+};
+
+interface Target {
+    unit: string;
+    // Size of one target unit in grams or millilitres
+    size: number;
+}
+
+const metricTarget = (base: number, isMass: boolean): Target =>
+    isMass
+        ? base >= 1000 ? { unit: 'kg', size: 1000 } : { unit: 'g', size: 1 }
+        : base >= 1000 ? { unit: 'l', size: 1000 } : { unit: 'ml', size: 1 };
+
+const imperialTarget = (base: number, isMass: boolean): Target => {
+    if (isMass) return base >= GRAMS_PER_UNIT.lb ? { unit: 'lb', size: GRAMS_PER_UNIT.lb } : { unit: 'oz', size: GRAMS_PER_UNIT.oz };
+    if (base < ML_PER_UNIT.tbsp * 0.9) return { unit: 'tsp', size: ML_PER_UNIT.tsp };
+    if (base < ML_PER_UNIT.cup / 4 * 0.9) return { unit: 'tbsp', size: ML_PER_UNIT.tbsp };
+    return { unit: 'cup', size: ML_PER_UNIT.cup };
+};
+
+/**
+ * Converts a quantity into `system`. `item` lets staples like flour and sugar
+ * switch between volume and weight (cups of flour become grams in metric).
+ * Quantities that are already in the target system, or have no convertible
+ * unit, come back unchanged.
+ */
+export const convertQuantity = <T extends Quantity>(quantity: T, system: UnitSystem, item = ''): T => {
+    const { amount, unit } = quantity;
+    if (system === 'original' || amount === null || !unit || SPOON_UNITS.has(unit)) return quantity;
+    let isMass = unit in GRAMS_PER_UNIT;
+    if (!isMass && !(unit in ML_PER_UNIT)) return quantity;
+    if (METRIC_UNITS.has(unit) === (system === 'metric')) return quantity;
+
+    // Everything goes through grams or millilitres.
+    let factor = isMass ? GRAMS_PER_UNIT[unit] : ML_PER_UNIT[unit];
+    const density = gramsPerCup(item);
+    if (density && system === 'metric' && !isMass) {
+        factor *= density / ML_PER_UNIT.cup;
+        isMass = true;
+    } else if (density && system === 'imperial' && isMass) {
+        factor *= ML_PER_UNIT.cup / density;
+        isMass = false;
+    }
+
+    const base = amount * factor;
+    const target = system === 'metric' ? metricTarget(base, isMass) : imperialTarget(base, isMass);
+    const convert = (value: number) =>
+        system === 'metric'
+            ? roundMetric(value * factor) / target.size
+            : roundAmount(value * factor / target.size, target.unit);
+
+    const converted: T = { ...quantity, amount: convert(amount), unit: target.unit };
+    if (quantity.amountMax !== undefined && quantity.amountMax !== null) {
+        converted.amountMax = convert(quantity.amountMax);
+        if (converted.amountMax <= (converted.amount ?? 0)) delete converted.amountMax;
+    }
+    return converted;
+};
+
+// --- Instruction text -------------------------------------------------------
+
+const TEMPERATURE = String.raw`(\d{2,3})\s*(?:(?:°|º|degrees?)\s*(fahrenheit|celsius|F|C)?\b|(F|C)\b)`;
+const TEMPERATURE_RE = new RegExp(TEMPERATURE, 'gi');
+// "350°F (180°C)" or "350°F/180°C": the recipe already gives both
+const DUAL_TEMPERATURE_RE = new RegExp(`${TEMPERATURE}\\s*(?:\\(\\s*${TEMPERATURE}\\s*\\)|\\/\\s*${TEMPERATURE})`, 'gi');
+
+const readScale = (...letters: (string | undefined)[]): 'F' | 'C' | null => {
+    const letter = letters.find(Boolean)?.charAt(0).toUpperCase();
+    return letter === 'F' || letter === 'C' ? letter : null;
+};
+
+// Ovens are set in steps: 180°C, 350°F, not 176.7°C.
+const roundTemperature = (value: number, scale: 'F' | 'C') =>
+    scale === 'C'
+        ? Math.round(value / (value >= 100 ? 10 : 5)) * (value >= 100 ? 10 : 5)
+        : Math.round(value / (value >= 250 ? 25 : 5)) * (value >= 250 ? 25 : 5);
+
+const convertTemperature = (value: number, from: 'F' | 'C', to: 'F' | 'C'): number => {
+    if (from === to) return value;
+    return roundTemperature(to === 'C' ? (value - 32) * 5 / 9 : value * 9 / 5 + 32, to);
+};
+
+/** Rewrites oven and cooking temperatures into the scale for `system`. */
+export const convertTemperatures = (text: string, system: UnitSystem): string => {
+    if (system === 'original') return text;
+    const target = system === 'metric' ? 'C' : 'F';
+
+    const collapsed = text.replace(DUAL_TEMPERATURE_RE, (match, ...groups: (string | undefined)[]) => {
+        const readings = [0, 3, 6]
+            .filter(i => groups[i] !== undefined)
+            .map(i => ({ value: Number(groups[i]), scale: readScale(groups[i + 1], groups[i + 2]) }));
+        const preferred = readings.find(r => r.scale === target);
+        return preferred ? `${preferred.value}°${target}` : match;
+    });
+
+    return collapsed.replace(TEMPERATURE_RE, (match, value: string, word?: string, letter?: string) => {
+        const scale = readScale(word, letter);
+        // A bare "180°" could be either; leave it as written.
+        if (!scale) return match;
+        return `${convertTemperature(Number(value), scale, target)}°${target}`;
+    });
+};
+
+// Measured quantities mentioned mid-sentence: "whisk in 2 cups of milk", "a 1 lb bag".
+const AMOUNT = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?\s*[½⅓⅔¼¾]?|[½⅓⅔¼¾])`;
+const INLINE_QUANTITY_RE = new RegExp(
+    String.raw`(?<![\w/.])${AMOUNT}(?:\s*(?:-|–|to)\s*${AMOUNT})?\s*(?:fl\.? oz|fluid ounces?|cups?|pints?|quarts?|gallons?|ounces?|oz|pounds?|lbs?|kilograms?|kg|grams?|g|millilit(?:er|re)s?|ml|lit(?:er|re)s?|l)(?![\w])`,
+    'gi'
+);
+
+/** Converts temperatures and measured quantities inside a line of instructions. */
+export const convertInstructionText = (text: string, system: UnitSystem): string => {
+    if (system === 'original') return text;
+    const withTemperatures = convertTemperatures(text, system);
+    return withTemperatures.replace(INLINE_QUANTITY_RE, match => {
+        const quantity = parseQuantity(match);
+        const converted = convertQuantity(quantity, system);
+        return converted === quantity ? match : formatQuantity(converted);
+    });
+};
+
+/** Applies `system` to every ingredient and instruction of a recipe. */
+export const convertRecipe = (recipe: Recipe, system: UnitSystem): Recipe => {
+    if (system === 'original') return recipe;
+    return {
+        ...recipe,
+        ingredients: recipe.ingredients.map(ingredient => convertQuantity(ingredient, system, ingredient.item)),
+        instructions: recipe.instructions.map(step => convertInstructionText(step, system)),
+    };
+};
+
+/** How many `to` units one `from` unit makes, when both measure mass or both measure volume. */
+export const unitRatio = (from: string | null, to: string | null): number | null => {
+    if (from === to) return 1;
+    if (from && to && from in GRAMS_PER_UNIT && to in GRAMS_PER_UNIT) return GRAMS_PER_UNIT[from] / GRAMS_PER_UNIT[to];
+    if (from && to && from in ML_PER_UNIT && to in ML_PER_UNIT) return ML_PER_UNIT[from] / ML_PER_UNIT[to];
+    return null;
+};
+
+/**
+ * Adds two quantities when their units measure the same thing, expressing the
+ * sum in `a`'s unit (1 cup + 2 tbsp = 1 1/8 cups). Returns null when they can't
+ * be combined, e.g. grams and cloves or a vague "to taste".
+ */
+export const addQuantities = <T extends Quantity>(a: T, b: Quantity): T | null => {
+    if (a.amount === null || b.amount === null) return null;
+    const ratio = unitRatio(b.unit, a.unit);
+    if (ratio === null) return null;
+
+    const hasRange = (a.amountMax ?? null) !== null || (b.amountMax ?? null) !== null;
+    const sum: T = { ...a, amount: a.amount + b.amount * ratio };
+    if (hasRange) sum.amountMax = (a.amountMax ?? a.amount) + (b.amountMax ?? b.amount) * ratio;
+    return sum;
+};
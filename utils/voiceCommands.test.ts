@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe } from '../types';
+import { answerHowMuch, normalizeTranscript, parseVoiceCommand } from './voiceCommands';
+
+const nutrient = { value: null, unit: 'g' as const };
+const recipe: Recipe = {
+    recipeName: 'Peanut butter cookies',
+    description: '',
+    ingredients: [
+        { item: 'butter', amount: 2, unit: 'tbsp', note: 'softened' },
+        { item: 'peanut butter', amount: 1, unit: 'cup' },
+        { item: 'eggs', amount: 2, unit: null },
+        { item: 'plain flour', amount: 200, unit: 'g' },
+    ],
+    instructions: ['Cream the butters.', 'Beat in the eggs.', 'Fold in the flour.'],
+    nutritionalInfo: { calories: { value: null, unit: 'kcal' }, protein: nutrient, carbs: nutrient, fat: nutrient },
+    prepTime: '25 minutes',
+};
+
+describe('normalizeTranscript', () => {
+    it('drops punctuation and filler but keeps decimal points', () => {
+        expect(normalizeTranscript('Okay, next step, please!')).toBe('next step');
+        expect(normalizeTranscript('Set a timer for 1.5 hours.')).toBe('set a timer for 1.5 hours');
+    });
+});
+
+describe('parseVoiceCommand', () => {
+    it('moves between steps', () => {
+        expect(parseVoiceCommand('Next')).toEqual({ type: 'next' });
+        expect(parseVoiceCommand("what's next?")).toEqual({ type: 'next' });
+        expect(parseVoiceCommand('Go back, please')).toEqual({ type: 'previous' });
+        expect(parseVoiceCommand('previous step')).toEqual({ type: 'previous' });
+        expect(parseVoiceCommand('Say that again')).toEqual({ type: 'repeat' });
+        expect(parseVoiceCommand('repeat')).toEqual({ type: 'repeat' });
+    });
+
+    it('jumps to a numbered step', () => {
+        expect(parseVoiceCommand('go to step 3')).toEqual({ type: 'goTo', step: 2 });
+        expect(parseVoiceCommand('skip to step four')).toEqual({ type: 'goTo', step: 3 });
+        expect(parseVoiceCommand('the second step')).toEqual({ type: 'goTo', step: 1 });
+        expect(parseVoiceCommand('step 0')).toBeNull();
+    });
+
+    it('starts timers with or without a length', () => {
+        expect(parseVoiceCommand('Start a timer')).toEqual({ type: 'startTimer', duration: null });
+        expect(parseVoiceCommand('set a timer for ten minutes')).toEqual({ type: 'startTimer', duration: { seconds: 600, maxSeconds: null } });
+        expect(parseVoiceCommand('timer for an hour and a half')).toEqual({ type: 'startTimer', duration: { seconds: 5400, maxSeconds: null } });
+        expect(parseVoiceCommand('set a timer for 1.5 hours')).toEqual({ type: 'startTimer', duration: { seconds: 5400, maxSeconds: null } });
+        expect(parseVoiceCommand('set a timer for a while')).toBeNull();
+    });
+
+    it('asks about ingredients', () => {
+        expect(parseVoiceCommand('How much butter do I need?')).toEqual({ type: 'howMuch', item: 'butter' });
+        expect(parseVoiceCommand('how many eggs go in this recipe')).toEqual({ type: 'howMuch', item: 'eggs' });
+        expect(parseVoiceCommand('how much of the flour')).toEqual({ type: 'howMuch', item: 'flour' });
+        expect(parseVoiceCommand('what do I need')).toEqual({ type: 'ingredients' });
+    });
+
+    it('stops reading and leaves cook mode', () => {
+        expect(parseVoiceCommand('stop reading')).toEqual({ type: 'stop' });
+        expect(parseVoiceCommand("I'm done")).toEqual({ type: 'exit' });
+    });
+
+    it('ignores speech that is not a command', () => {
+        expect(parseVoiceCommand('')).toBeNull();
+        expect(parseVoiceCommand('um, okay')).toBeNull();
+        expect(parseVoiceCommand('the onions are burning')).toBeNull();
+        expect(parseVoiceCommand('next time add more salt')).toBeNull();
+    });
+});
+
+describe('answerHowMuch', () => {
+    it('prefers the ingredient named exactly over ones that contain it', () => {
+        expect(answerHowMuch(recipe, 'butter')).toBe('You need 2 tbsp butter, softened.');
+    });
+
+    it('falls back to partial matches', () => {
+        expect(answerHowMuch(recipe, 'flour')).toBe('You need 200 g plain flour.');
+        expect(answerHowMuch(recipe, 'peanut')).toBe('You need 1 cup peanut butter.');
+    });
+
+    it('matches singular and plural names', () => {
+        expect(answerHowMuch(recipe, 'egg')).toBe('You need 2 eggs.');
+    });
+
+    it('says when the recipe has no such ingredient', () => {
+        expect(answerHowMuch(recipe, 'sugar')).toBe("I can't find sugar in this recipe.");
+    });
+});
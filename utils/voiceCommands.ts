@@ -0,0 +1,124 @@
+import type { Recipe } from '../types';
+import { parseDuration } from './durations';
+import type { DurationRange } from './durations';
+import { formatRecipeIngredient } from './ingredients';
+import { isOnHand, normalizeItemName } from './shoppingList';
+
+// The spoken commands cook mode understands, and the answers it reads back.
+// Pure functions over the recognised transcript, so the grammar can be checked
+// without a microphone.
+
+export type VoiceCommand =
+    | { type: 'next' }
+    | { type: 'previous' }
+    | { type: 'repeat' }
+    // Step numbers are 0-based
+    | { type: 'goTo'; step: number }
+    // null: the first timer in the current step
+    | { type: 'startTimer'; duration: DurationRange | null }
+    | { type: 'howMuch'; item: string }
+    | { type: 'ingredients' }
+    // Stop reading aloud
+    | { type: 'stop' }
+    | { type: 'exit' };
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+    eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+// Politeness and filler that recognisers pick up around the command itself.
+const FILLER = /\b(please|okay|ok|hey|um|uh|so|now|then|could you|can you|would you|thanks|thank you)\b/g;
+
+const readNumber = (word: string): number | null => {
+    if (/^\d+$/.test(word)) return parseInt(word, 10);
+    return NUMBER_WORDS[word] ?? null;
+};
+
+const NUMBER = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const EXACT: [RegExp, VoiceCommand][] = [
+    [/^(next|next step|continue|go on|go ahead|forward|go forward|done|what's next|what next)$/, { type: 'next' }],
+    [/^(back|previous|previous step|go back|last step|step back)$/, { type: 'previous' }],
+    [/^(repeat|again|repeat that|say (?:that|it) again|read (?:that|it) again|what was that|pardon|sorry|read (?:the )?step)$/, { type: 'repeat' }],
+    [/^((?:read |list |what are )?(?:the )?ingredients|what do i need)$/, { type: 'ingredients' }],
+    [/^(stop|stop reading|quiet|be quiet|shush|silence|pause|stop talking)$/, { type: 'stop' }],
+    [/^(exit|close|stop cooking|exit cook mode|leave|finish|i'm done|i am done)$/, { type: 'exit' }],
+];
+
+const GO_TO_RE = new RegExp(`^(?:go to |skip to |jump to )?(?:the )?(?:step ${NUMBER}|${NUMBER} step)$`);
+// The length is read by the duration grammar: "timer for an hour and a half"
+const TIMER_RE = /^(?:(?:start|set|begin|run)(?: a| the)? )?timer(?: for (.+))?$/;
+// "how much butter", "how many eggs do I need", "how much of the flour goes in this recipe"
+const HOW_MUCH_RE = new RegExp(
+    '^(?:how (?:much|many)|what amount of|what quantity of)\\s+(.+?)'
+    + '(?:\\s+(?:do|should|will) (?:i|we) (?:need|use|add|put in)|\\s+(?:is|are) (?:needed|used)|\\s+(?:is|are|goes|go))?'
+    + '(?:\\s+in (?:it|this|this recipe|the recipe|there))?$'
+);
+
+/** Lowercased, without punctuation or filler words. */
+export const normalizeTranscript = (transcript: string): string =>
+    transcript
+        .toLowerCase()
+        // Keeps decimal points ("1.5 hours")
+        .replace(/[?!,]|\.(?!\d)/g, ' ')
+        .replace(FILLER, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/** The command in a recognised phrase, or null when it isn't one. */
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+    const text = normalizeTranscript(transcript);
+    if (!text) return null;
+
+    for (const [pattern, command] of EXACT) {
+        if (pattern.test(text)) return command;
+    }
+
+    const goTo = GO_TO_RE.exec(text);
+    if (goTo) {
+        const step = readNumber(goTo[1] ?? goTo[2]);
+        return step !== null && step > 0 ? { type: 'goTo', step: step - 1 } : null;
+    }
+
+    const timer = TIMER_RE.exec(text);
+    if (timer) {
+        if (!timer[1]) return { type: 'startTimer', duration: null };
+        const duration = parseDuration(timer[1]);
+        return duration ? { type: 'startTimer', duration } : null;
+    }
+
+    const howMuch = HOW_MUCH_RE.exec(text);
+    if (howMuch) {
+        const item = howMuch[1].replace(/^(?:of |the )+/, '').trim();
+        return item ? { type: 'howMuch', item } : null;
+    }
+
+    return null;
+};
+
+// Lines naming exactly `key`; only when there are none, lines that partly match,
+// so "butter" finds the butter rather than the peanut butter too.
+const linesFor = (recipe: Recipe, key: string) => {
+    if (!key) return [];
+    const exact = recipe.ingredients.filter(i => normalizeItemName(i.item) === key);
+    return exact.length > 0 ? exact : recipe.ingredients.filter(i => isOnHand(normalizeItemName(i.item), [key]));
+};
+
+/** "You need 2 tbsp butter, softened." from the recipe's ingredient lines. */
+export const answerHowMuch = (recipe: Recipe, item: string): string => {
+    const lines = linesFor(recipe, normalizeItemName(item));
+    if (lines.length === 0) return `I can't find ${item} in this recipe.`;
+    const described = lines.map(formatRecipeIngredient);
+    return `You need ${described.length > 1 ? `${described.slice(0, -1).join(', ')} and ${described[described.length - 1]}` : described[0]}.`;
+};
+
+/** What's read aloud for a step: "Step 2 of 6. Chop the onions." */
+export const describeStepForSpeech = (text: string, step: number, total: number): string =>
+    `Step ${step + 1} of ${total}. ${text}`;
+
+/** All ingredient lines as one sentence for reading aloud. */
+export const describeIngredientsForSpeech = (recipe: Recipe): string =>
+    `You'll need: ${recipe.ingredients.map(formatRecipeIngredient).join('; ')}.`;
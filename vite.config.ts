@@ -1,23 +1,17 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
-  // Load env file based on `mode` in the current working directory.
-  // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
-  // Cast process to any to avoid TS error regarding cwd() on the Process interface
-  const env = loadEnv(mode, (process as any).cwd(), '');
-
-  return {
-    plugins: [react()],
-    build: {
-      outDir: 'dist',
-      sourcemap: false,
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: 'dist',
+    sourcemap: false,
+  },
+  server: {
+    // The API key lives only on the backend (server/index.ts); forward API calls to it in dev.
+    proxy: {
+      '/api': `http://localhost:${process.env.PORT || 8787}`,
     },
-    define: {
-      // This correctly replaces process.env.API_KEY in your source code
-      // with the actual string value from the Render Environment Variable during the build.
-      'process.env.API_KEY': JSON.stringify(process.env.API_KEY || env.API_KEY)
-    }
-  };
-});
\ No newline at end of file
+  },
+});